@@ -3,26 +3,7 @@ import { KeyRound, Shield, Eye, EyeOff, Plus, Trash2, ExternalLink, Copy, Check,
 import { DatabaseProvider, useDatabase } from '../pglite/db-context';
 import { ParseSchema } from '@/pglite';
 import { useAuth } from '@/webauthn/AuthContext';
-
-// Define the schema for our env group manager
-const ENV_GROUP_MANAGER_SCHEMA = `
-  CREATE TABLE IF NOT EXISTS env_groups (
-    id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-    name TEXT NOT NULL,
-    description TEXT,
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-  );
-  
-  CREATE TABLE IF NOT EXISTS env_variables (
-    id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-    group_id BIGINT NOT NULL REFERENCES env_groups(id) ON DELETE CASCADE,
-    key TEXT NOT NULL,
-    value TEXT NOT NULL,
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-  );
-`;
+import { ENV_GROUP_MANAGER_SCHEMA, ENV_GROUP_DB_NAME } from './envGroups';
 
 // Interface for env groups and variables
 interface EnvGroup {
@@ -721,7 +702,7 @@ export function EnvGroupManager({ className }: EnvGroupManagerProps) {
           <div className="bg-gray-800 rounded-lg p-6 mb-4">
             <DatabaseProvider 
               schema={ENV_GROUP_MANAGER_SCHEMA} 
-              dbName="env-group-manager"
+              dbName={ENV_GROUP_DB_NAME}
               encryptionKey={encryptionKey} // Enable encryption for TEXT fields
               debug={false}
             >
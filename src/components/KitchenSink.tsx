@@ -19,6 +19,7 @@ import { Edit, Save, Plus, Trash2, AlertCircle } from 'lucide-react';
 import { StatusIndicator } from '@/wmcp/components/status/StatusIndicator';
 import { AuthProvider, useAuth } from '../webauthn/AuthContext';
 import { LoginPage } from './LoginPage';
+import { useEnvGroups } from './envGroups';
 // import type { Tool } from '../wmcp/types'; // Add this import for Tool type
 
 
@@ -268,18 +269,28 @@ const DB_EXPLORER_SCHEMA = `
 
 // --- Page Components ---
 
-const ChatPage = () => (
-    <DatabaseProvider schema={CHAT_SCHEMA} dbName="kitchensink-chat-db" debug={false}>
-        <Chat
-            enablePersistence={true}
-            // Use default server configs or allow configuration via ModelConfig page
-            serverConfigs={{
-                memory: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-memory'], env: {} },
-                filesystem: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', '/'], env: {} }
-            }}
-        />
-    </DatabaseProvider>
-);
+// Use default server configs or allow configuration via ModelConfig page
+const CHAT_SERVER_CONFIGS: Record<string, ServerConfig> = {
+    memory: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-memory'], env: {} },
+    filesystem: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', '/'], env: {} }
+};
+
+const ChatPage = () => {
+    // Lets chat servers reference encrypted env groups instead of plaintext keys
+    const { groupNames, resolver, saveGroup } = useEnvGroups();
+
+    return (
+        <DatabaseProvider schema={CHAT_SCHEMA} dbName="kitchensink-chat-db" debug={false}>
+            <Chat
+                enablePersistence={true}
+                serverConfigs={CHAT_SERVER_CONFIGS}
+                envGroupResolver={resolver}
+                envGroupNames={groupNames}
+                onSaveEnvGroup={saveGroup}
+            />
+        </DatabaseProvider>
+    );
+};
 
 const MCPManagePage = () => {
     const [serverConfigs, setServerConfigs] = useState<Record<string, ServerConfig>>({
@@ -287,7 +298,8 @@ const MCPManagePage = () => {
         'filesystem': { command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', '/'], env: {} },
         'everything': { command: 'npx', args: ['-y', '@modelcontextprotocol/server-everything'], env: {} }
     });
-    const { status, tools, resources, error, toolToServerMap } = useMCPServer({ mcpServers: serverConfigs });
+    const { groupNames, resolver, saveGroup } = useEnvGroups();
+    const { status, tools, resources, resourceTemplates, completeArgument, error, toolToServerMap } = useMCPServer({ mcpServers: serverConfigs, envGroupResolver: resolver });
     const [showConfigSheet, setShowConfigSheet] = useState(false);
 
     const handleSaveConfig = (newConfigs: Record<string, ServerConfig>) => {
@@ -324,7 +336,7 @@ const MCPManagePage = () => {
                     <ToolsList tools={tools as Tool[]} isLoading={status !== 'READY'} maxHeight="400px" />
                 </ActionCard>
                 <ActionCard title="Available Resources" icon={<Database size={18} />}>
-                    <ResourcesList resources={resources} isLoading={status !== 'READY'} maxHeight="400px" />
+                    <ResourcesList resources={resources} resourceTemplates={resourceTemplates} completeArgument={completeArgument} isLoading={status !== 'READY'} maxHeight="400px" />
                 </ActionCard>
             </div>
 
@@ -343,6 +355,8 @@ const MCPManagePage = () => {
                 serverStatus={status}
                 tools={tools} // Pass tools with serverName if available
                 serverToolMapping={serverToolMapping}
+                envGroupNames={groupNames}
+                onSaveEnvGroup={saveGroup}
             />
         </div>
     );
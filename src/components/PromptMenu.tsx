@@ -9,6 +9,9 @@ import {
 } from "../components/ui/command";
 import { Dialog, DialogContent } from "../components/ui/dialog";
 import { Sparkles, MessageSquare } from "lucide-react";
+import type { Prompt as McpPrompt, PromptArgument } from "@modelcontextprotocol/sdk/types.js";
+import { DynamicForm, Schema } from "../wmcp/components/mcp/DynamicForm";
+import type { ArgumentCompleter } from "../wmcp/lib/McpClientManager";
 
 // Define prompt interface
 export interface Prompt {
@@ -17,6 +20,39 @@ export interface Prompt {
   description: string;
   content: string;
   category: string;
+  /** Name of the MCP server providing this prompt, if any */
+  serverName?: string;
+  /** Arguments the server needs to render the prompt */
+  arguments?: PromptArgument[];
+  /** Name the server knows the prompt by, when `name` is its display title */
+  promptName?: string;
+}
+
+// Convert server-provided MCP prompts into menu entries grouped by server
+export function fromMcpPrompts(prompts: McpPrompt[], promptToServerMap?: Map<string, string>): Prompt[] {
+  return prompts.map(prompt => {
+    const serverName = promptToServerMap?.get(prompt.name);
+    return {
+      id: serverName ? `${serverName}/${prompt.name}` : prompt.name,
+      name: prompt.title || prompt.name,
+      description: prompt.description || "",
+      content: "",
+      category: serverName || "MCP",
+      serverName,
+      arguments: prompt.arguments,
+      promptName: prompt.name,
+    };
+  });
+}
+
+// Build a DynamicForm schema from a prompt's argument list
+export function promptArgumentsSchema(promptArguments: PromptArgument[] = []): Schema {
+  return {
+    properties: Object.fromEntries(
+      promptArguments.map(arg => [arg.name, { type: "string", description: arg.description }])
+    ),
+    required: promptArguments.filter(arg => arg.required).map(arg => arg.name),
+  };
 }
 
 // Default prompts
@@ -62,16 +98,49 @@ interface PromptMenuProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
   prompts?: Prompt[];
-  onSelectPrompt?: (prompt: Prompt) => void;
+  onSelectPrompt?: (prompt: Prompt, args?: Record<string, string>) => void;
+  /** Server completions for prompt arguments */
+  completeArgument?: ArgumentCompleter;
 }
 
 export function PromptMenu({ 
   isOpen, 
   onOpenChange, 
   prompts = DEFAULT_PROMPTS, 
-  onSelectPrompt 
+  onSelectPrompt,
+  completeArgument
 }: PromptMenuProps) {
   const [searchQuery, setSearchQuery] = React.useState("");
+  const [pendingPrompt, setPendingPrompt] = React.useState<Prompt | null>(null);
+  
+  // Forget the prompt awaiting arguments whenever the menu closes
+  React.useEffect(() => {
+    if (!isOpen) {
+      setPendingPrompt(null);
+    }
+  }, [isOpen]);
+  
+  const pendingSchema = React.useMemo(
+    () => promptArgumentsSchema(pendingPrompt?.arguments),
+    [pendingPrompt]
+  );
+  
+  // Only server prompts can be completed, and only by the server that owns them
+  const pendingPromptName = pendingPrompt?.serverName ? pendingPrompt.promptName : undefined;
+  const getCompletions = React.useCallback(
+    (name: string, value: string, context: Record<string, string>) =>
+      completeArgument!({ type: "ref/prompt", name: pendingPromptName! }, name, value, context),
+    [completeArgument, pendingPromptName]
+  );
+  
+  const handleSelect = (prompt: Prompt) => {
+    if (prompt.arguments && prompt.arguments.length > 0) {
+      setPendingPrompt(prompt);
+      return;
+    }
+    onSelectPrompt?.(prompt);
+    onOpenChange(false);
+  };
   
   // Group prompts by category
   const promptsByCategory = React.useMemo(() => {
@@ -103,6 +172,21 @@ export function PromptMenu({
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
       <DialogContent className="bg-[#252526] border border-[#3c3c3c] p-0 max-w-md w-full">
+        {pendingPrompt ? (
+          <div className="p-4 text-white">
+            <div className="font-medium mb-1">{pendingPrompt.name}</div>
+            <DynamicForm
+              schema={pendingSchema}
+              formDescription={pendingPrompt.description}
+              submitButtonText="Use prompt"
+              getCompletions={completeArgument && pendingPromptName ? getCompletions : undefined}
+              onSubmit={(values) => {
+                onSelectPrompt?.(pendingPrompt, values);
+                onOpenChange(false);
+              }}
+            />
+          </div>
+        ) : (
         <Command className="bg-transparent">
           <CommandInput 
             placeholder="Search prompt templates..." 
@@ -120,10 +204,7 @@ export function PromptMenu({
                 {categoryPrompts.map((prompt) => (
                   <CommandItem
                     key={prompt.id}
-                    onSelect={() => {
-                      onSelectPrompt?.(prompt);
-                      onOpenChange(false);
-                    }}
+                    onSelect={() => handleSelect(prompt)}
                     className="flex items-center gap-2 rounded-md p-2 cursor-pointer hover:bg-[#3c3c3c] text-white"
                   >
                     <div className="flex-shrink-0">
@@ -143,6 +224,7 @@ export function PromptMenu({
             ))}
           </CommandList>
         </Command>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,4 +1,5 @@
-import React from "react";
+import React, { useState } from "react";
+import type { ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
 import {
   Command,
   CommandInput,
@@ -8,7 +9,9 @@ import {
   CommandItem,
 } from "../components/ui/command";
 import { Dialog, DialogContent } from "../components/ui/dialog";
-import { FileIcon, FolderIcon } from "lucide-react";
+import { FileIcon, FolderIcon, Braces } from "lucide-react";
+import { ResourceTemplateForm } from "../wmcp/components/mcp/ResourceTemplateForm";
+import type { ArgumentCompleter } from "../wmcp/lib/McpClientManager";
 
 // Define a resource interface
 export interface Resource {
@@ -21,6 +24,8 @@ interface ResourceMenuProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
   resources?: Resource[];
+  resourceTemplates?: ResourceTemplate[];
+  completeArgument?: ArgumentCompleter;
   onSelectResource?: (resource: Resource) => void;
 }
 
@@ -28,49 +33,90 @@ export function ResourceMenu({
   isOpen,
   onOpenChange,
   resources = [],
+  resourceTemplates = [],
+  completeArgument,
   onSelectResource
 }: ResourceMenuProps) {
+  // Template whose parameter form replaces the search list
+  const [activeTemplate, setActiveTemplate] = useState<ResourceTemplate | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setActiveTemplate(null);
+    onOpenChange(open);
+  };
+
   return (
-    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogContent className="bg-[#252526] border border-[#3c3c3c] p-0 max-w-md w-full">
-        <Command className="bg-transparent">
-          <CommandInput
-            placeholder="Search resources..."
-            className="border-b border-[#3c3c3c] focus:ring-0 text-white"
-          />
-          <CommandList className="max-h-[300px] overflow-y-auto">
-            <CommandEmpty className="py-6 text-center text-gray-400">
-              No resources found.
-            </CommandEmpty>
-            <CommandGroup heading="Available Resources" className="px-2 py-1.5 text-xs text-gray-400">
-              {resources.map((resource) => (
-                <CommandItem
-                  key={resource.name}
-                  onSelect={() => {
-                    onSelectResource?.(resource);
-                    onOpenChange(false);
-                  }}
-                  className="flex items-center gap-2 rounded-md p-2 cursor-pointer hover:bg-[#3c3c3c] text-white"
-                >
-                  {resource.mimeType?.includes('folder') ? (
-                    <FolderIcon className="h-4 w-4 text-yellow-400" />
-                  ) : (
-                    <FileIcon className="h-4 w-4 text-blue-400" />
-                  )}
-                  <div className="flex-1">
-                    <div className="font-medium">{resource.name}</div>
-                    {resource.uri && (
-                      <div className="text-xs text-gray-500 italic">{resource.uri}</div>
-                    )}
-                    {resource.text && (
-                      <div className="text-xs text-gray-400">{resource.text}</div>
+        {activeTemplate ? (
+          <div className="p-4 text-white">
+            <div className="font-medium mb-2">{activeTemplate.name}</div>
+            <ResourceTemplateForm
+              template={activeTemplate}
+              completeArgument={completeArgument}
+              onExpand={(uri, template) => {
+                onSelectResource?.({ name: template.name, uri, mimeType: template.mimeType });
+                handleOpenChange(false);
+              }}
+            />
+          </div>
+        ) : (
+          <Command className="bg-transparent">
+            <CommandInput
+              placeholder="Search resources..."
+              className="border-b border-[#3c3c3c] focus:ring-0 text-white"
+            />
+            <CommandList className="max-h-[300px] overflow-y-auto">
+              <CommandEmpty className="py-6 text-center text-gray-400">
+                No resources found.
+              </CommandEmpty>
+              <CommandGroup heading="Available Resources" className="px-2 py-1.5 text-xs text-gray-400">
+                {resources.map((resource) => (
+                  <CommandItem
+                    key={resource.name}
+                    onSelect={() => {
+                      onSelectResource?.(resource);
+                      onOpenChange(false);
+                    }}
+                    className="flex items-center gap-2 rounded-md p-2 cursor-pointer hover:bg-[#3c3c3c] text-white"
+                  >
+                    {resource.mimeType?.includes('folder') ? (
+                      <FolderIcon className="h-4 w-4 text-yellow-400" />
+                    ) : (
+                      <FileIcon className="h-4 w-4 text-blue-400" />
                     )}
-                  </div>
-                </CommandItem>
-              ))}
-            </CommandGroup>
-          </CommandList>
-        </Command>
+                    <div className="flex-1">
+                      <div className="font-medium">{resource.name}</div>
+                      {resource.uri && (
+                        <div className="text-xs text-gray-500 italic">{resource.uri}</div>
+                      )}
+                      {resource.text && (
+                        <div className="text-xs text-gray-400">{resource.text}</div>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              {resourceTemplates.length > 0 && (
+                <CommandGroup heading="Resource Templates" className="px-2 py-1.5 text-xs text-gray-400">
+                  {resourceTemplates.map((template) => (
+                    <CommandItem
+                      key={template.uriTemplate}
+                      onSelect={() => setActiveTemplate(template)}
+                      className="flex items-center gap-2 rounded-md p-2 cursor-pointer hover:bg-[#3c3c3c] text-white"
+                    >
+                      <Braces className="h-4 w-4 text-purple-400" />
+                      <div className="flex-1">
+                        <div className="font-medium">{template.name}</div>
+                        <div className="text-xs text-gray-500 italic">{template.uriTemplate}</div>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -90,7 +90,7 @@ const DEFAULT_SERVER_CONFIGS: Record<string, ServerConfig> = {
   },
   filesystem: {
     command: "npx",
-    args: ["-y", "@modelcontextprotocol/server-filesystem", "/"],
+    args: ["-y", "@modelcontextprotocol/server-filesystem"],
     env: {},
   },
   "sequential-thinking": {
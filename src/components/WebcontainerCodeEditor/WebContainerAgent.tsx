@@ -1,5 +1,5 @@
 "use client";
-import React, { useState, useRef, useEffect, useCallback, forwardRef, useImperativeHandle, useContext } from "react";
+import React, { useState, useRef, useEffect, useCallback, forwardRef, useImperativeHandle, useContext, useMemo } from "react";
 import {
   SendIcon,
   BotIcon,
@@ -61,8 +61,10 @@ import { MCPServerStatus, useMCPServer } from "../../wmcp/hooks/useMcpServer";
 import { Tool } from "@modelcontextprotocol/sdk/types";
 import { WebContainerContext } from "../../wmcp/providers/Webcontainer";
 import { MpcServerMenu } from "../../components/MpcServerMenu";
-import { PromptMenu, Prompt } from "../../components/PromptMenu";
+import { PromptMenu, Prompt, fromMcpPrompts } from "../../components/PromptMenu";
 import { ResourceMenu, Resource } from "../../components/ResourceMenu";
+import { ToolApprovalDialog } from "../../wmcp/components/mcp/ToolApprovalDialog";
+import { DEFAULT_WORKSPACE_ID } from "../../wmcp/lib/ToolPermissionPolicy";
 
 // Default MPC server configurations
 const DEFAULT_SERVER_CONFIGS: Record<string, ServerConfig> = {
@@ -73,7 +75,7 @@ const DEFAULT_SERVER_CONFIGS: Record<string, ServerConfig> = {
   },
   'filesystem': {
     command: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-filesystem', '/'],
+    args: ['-y', '@modelcontextprotocol/server-filesystem'],
     env: {}
   },
   'sequential-thinking': {
@@ -400,6 +402,8 @@ export interface WebContainerAgentProps {
   serverConfigs?: Record<string, ServerConfig>;
   activeServers?: Record<string, ServerConfig>;
   setActiveServers?: React.Dispatch<React.SetStateAction<Record<string, ServerConfig>>>;
+  // Tool permissions are saved per workspace
+  workspaceId?: string;
 }
 
 // Define the handle type for the ref
@@ -415,7 +419,8 @@ export const WebContainerAgent = React.memo(forwardRef<WebContainerAgentHandle,
   testResults,
   serverConfigs = DEFAULT_SERVER_CONFIGS,
   activeServers = {},
-  setActiveServers
+  setActiveServers,
+  workspaceId = DEFAULT_WORKSPACE_ID
 }, ref) => {
   const [input, setInput] = useState("");
   const [collapsedTools, setCollapsedTools] = useState<Record<string, boolean>>({});
@@ -442,11 +447,24 @@ export const WebContainerAgent = React.memo(forwardRef<WebContainerAgentHandle,
     tools: mcpTools,
     prompts: availablePrompts,
     resources: availableResources,
+    resourceTemplates,
     executeTool,
-    toolToServerMap
+    executePrompt,
+    completeArgument,
+    toolToServerMap,
+    promptToServerMap,
+    pendingToolApproval,
+    decideToolApproval
   } = useMCPServer({
-    mcpServers: setActiveServers ? activeServers : localActiveServers
+    mcpServers: setActiveServers ? activeServers : localActiveServers,
+    workspaceId
   });
+  
+  // Server-provided prompts shown in the prompt menu
+  const menuPrompts = useMemo(
+    () => fromMcpPrompts(availablePrompts, promptToServerMap),
+    [availablePrompts, promptToServerMap]
+  );
 
   // Add a state to track if WebContainer is ready
   const [webContainerReady, setWebContainerReady] = useState(false);
@@ -764,9 +782,10 @@ export const WebContainerAgent = React.memo(forwardRef<WebContainerAgentHandle,
       console.log(`Tool ${toolName} execution result:`, result);
       
       return {
-        status: "success" as const,
-        message: `Successfully executed ${toolName}`,
-        content: result
+        status: result.isError ? "error" as const : "success" as const,
+        message: result.isError ? `Tool ${toolName} reported an error` : `Successfully executed ${toolName}`,
+        content: result.content as any,
+        structuredContent: result.structuredContent
       };
     } catch (error) {
       console.error(`Error executing MCP tool ${toolName}:`, error);
@@ -1327,9 +1346,24 @@ export const WebContainerAgent = React.memo(forwardRef<WebContainerAgentHandle,
   };
 
   // Add handler for prompt selection
-  const handleSelectPrompt = (prompt: Prompt) => {
-    // Only keep one prompt (replace any existing)
-    setSelectedPrompts([prompt]);
+  const handleSelectPrompt = async (prompt: Prompt, args?: Record<string, string>) => {
+    if (!prompt.serverName) {
+      // Only keep one prompt (replace any existing)
+      setSelectedPrompts([prompt]);
+      return;
+    }
+    
+    // Render server prompts so their messages can be used as the prompt content
+    try {
+      const rendered = await executePrompt(prompt.promptName ?? prompt.name, args);
+      const content = rendered.messages
+        .map(message => message.content.type === 'text' ? message.content.text : '')
+        .filter(Boolean)
+        .join('\n\n');
+      setSelectedPrompts([{ ...prompt, content }]);
+    } catch (error) {
+      console.error(`Error rendering prompt ${prompt.name}:`, error);
+    }
   };
 
   const handleSelectResource = (resource: Resource) => {
@@ -1515,6 +1549,9 @@ export const WebContainerAgent = React.memo(forwardRef<WebContainerAgentHandle,
 
   return (
     <div className="h-full flex flex-col w-full bg-[#1e1e1e]">
+      {/* Asks before running tools the tool permissions don't allow outright */}
+      <ToolApprovalDialog request={pendingToolApproval} onDecide={decideToolApproval} />
+
       {/* Server config sheet - only show it if we're managing servers locally */}
       {!setActiveServers && (
         <ServerConfigSheet
@@ -1549,8 +1586,9 @@ export const WebContainerAgent = React.memo(forwardRef<WebContainerAgentHandle,
       <PromptMenu
         isOpen={isPromptMenuOpen}
         onOpenChange={setIsPromptMenuOpen}
-        prompts={availablePrompts}
+        prompts={menuPrompts}
         onSelectPrompt={handleSelectPrompt}
+        completeArgument={completeArgument}
       />
 
       {/* Pass resources to ResourceMenu */}
@@ -1558,6 +1596,8 @@ export const WebContainerAgent = React.memo(forwardRef<WebContainerAgentHandle,
         isOpen={isResourceMenuOpen}
         onOpenChange={setIsResourceMenuOpen}
         resources={availableResources}
+        resourceTemplates={resourceTemplates}
+        completeArgument={completeArgument}
         onSelectResource={handleSelectResource}
       />
       
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getDB, initSchema, createDBOperations } from '../pglite/db-core';
+import { useAuth } from '@/webauthn/AuthContext';
+import type { EnvGroupResolver } from '@/wmcp/lib/McpClientManager';
+
+// Schema for the env groups EnvGroupManager edits; TEXT fields are encrypted at rest
+export const ENV_GROUP_MANAGER_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS env_groups (
+    id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS env_variables (
+    id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+    group_id BIGINT NOT NULL REFERENCES env_groups(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+export const ENV_GROUP_DB_NAME = 'env-group-manager';
+
+async function openEnvGroupDB(encryptionKey: CryptoKey) {
+  const database = await getDB(ENV_GROUP_DB_NAME);
+  await initSchema(database, ENV_GROUP_MANAGER_SCHEMA);
+  return createDBOperations(database, ENV_GROUP_MANAGER_SCHEMA, encryptionKey);
+}
+
+/**
+ * Names of all env groups. Names are encrypted too, so this needs the key.
+ */
+export async function listEnvGroupNames(encryptionKey: CryptoKey): Promise<string[]> {
+  const db = await openEnvGroupDB(encryptionKey);
+  const groups = await db.env_groups.findMany({ orderBy: { name: 'asc' } });
+  return groups.map(group => group.name);
+}
+
+/**
+ * Create the named group, or replace the variables of an existing one, e.g. to keep the secrets
+ * a server needs out of its config
+ */
+export async function saveEnvGroup(
+  encryptionKey: CryptoKey,
+  name: string,
+  variables: Record<string, string>,
+  description: string = ''
+): Promise<void> {
+  const db = await openEnvGroupDB(encryptionKey);
+  const groups = await db.env_groups.findMany();
+  const now = new Date();
+  let group = groups.find(candidate => candidate.name === name);
+  if (group) {
+    const existing = await db.env_variables.findMany({ where: { group_id: group.id } });
+    for (const variable of existing) {
+      await db.env_variables.delete({ id: variable.id });
+    }
+  } else {
+    group = await db.env_groups.create({ name, description, created_at: now, updated_at: now });
+  }
+
+  for (const [key, value] of Object.entries(variables)) {
+    await db.env_variables.create({ group_id: group.id, key, value, created_at: now, updated_at: now });
+  }
+}
+
+/**
+ * Resolver that decrypts the named groups for MCPClientManager at spawn time.
+ * Later groups override earlier ones when they share a key.
+ */
+export function createEnvGroupResolver(encryptionKey: CryptoKey): EnvGroupResolver {
+  return async (groupNames) => {
+    const db = await openEnvGroupDB(encryptionKey);
+    // Names are encrypted at rest, so they can only be matched after decryption
+    const groups = await db.env_groups.findMany();
+    const env: Record<string, string> = {};
+
+    for (const groupName of groupNames) {
+      const group = groups.find(candidate => candidate.name === groupName);
+      if (!group) {
+        throw new Error(`Env group "${groupName}" does not exist`);
+      }
+
+      const variables = await db.env_variables.findMany({ where: { group_id: group.id } });
+      for (const variable of variables) {
+        if (variable.value === '[DECRYPTION FAILED]') {
+          throw new Error(`Could not decrypt ${variable.key} in env group "${groupName}"`);
+        }
+        env[variable.key] = variable.value;
+      }
+    }
+
+    return env;
+  };
+}
+
+/**
+ * Env group names, a resolver and a way to save groups for the logged-in user; all are empty
+ * until a key is available
+ */
+export function useEnvGroups() {
+  const { encryptionKey } = useAuth();
+  const [groupNames, setGroupNames] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!encryptionKey) {
+      setGroupNames([]);
+      return;
+    }
+
+    let cancelled = false;
+    listEnvGroupNames(encryptionKey)
+      .then(names => !cancelled && setGroupNames(names))
+      .catch(error => console.error('Error loading env groups:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [encryptionKey]);
+
+  const resolver = useMemo(
+    () => encryptionKey ? createEnvGroupResolver(encryptionKey) : undefined,
+    [encryptionKey]
+  );
+
+  const saveGroup = useMemo(
+    () => encryptionKey
+      ? async (name: string, variables: Record<string, string>) => {
+          await saveEnvGroup(encryptionKey, name, variables);
+          setGroupNames(names => names.includes(name) ? names : [...names, name].sort());
+        }
+      : undefined,
+    [encryptionKey]
+  );
+
+  return { groupNames, resolver, saveGroup };
+}
@@ -4,26 +4,27 @@ import { PGlite } from '@electric-sql/pglite';
 import { vector } from '@electric-sql/pglite/vector';
 import { ParseSchema, DBOperations } from './types';
 
-let dbInstance: PGlite | null = null;
+// One instance per database name; the promise is cached so concurrent callers share it
+const dbInstances: Map<string, Promise<PGlite>> = new Map();
 let encryptionKey: CryptoKey | null = null;
 
 /**
- * Creates or returns a singleton database instance
+ * Creates or returns the database instance for the given name
  */
-export async function getDB(dbName: string = 'postgres-typesafe-db') {
-  if (dbInstance) {
-    return dbInstance;
+export async function getDB(dbName: string = 'postgres-typesafe-db'): Promise<PGlite> {
+  let instance = dbInstances.get(dbName);
+  if (!instance) {
+    const db = new PGlite(`idb://${dbName}`, {
+      extensions: {
+        vector,
+      },
+    });
+    instance = db.waitReady.then(() => db);
+    dbInstances.set(dbName, instance);
+    // Let a later call try again instead of caching the failure
+    instance.catch(() => dbInstances.delete(dbName));
   }
-  
-  const db = new PGlite(`idb://${dbName}`, {
-    extensions: {
-      vector,
-    },
-  });
-  
-  await db.waitReady;
-  dbInstance = db;
-  return db;
+  return instance;
 }
 
 /**
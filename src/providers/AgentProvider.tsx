@@ -21,15 +21,46 @@ import {
   DEFAULT_SYSTEM_PROMPT,
   DEFAULT_TOOLS,
 } from '@/components/WebcontainerCodeEditor/useWebContainerAgent';
-import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Tool, Prompt, CreateMessageResult, ModelPreferences } from '@modelcontextprotocol/sdk/types.js';
 import { useMcp } from './McpProvider';
 
+// Per-call overrides of the request defaults
+export interface CallLLMOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  stopSequences?: string[];
+}
+
 export type CallLLMFunction = (
   messages: AnthropicMessage[],
   systemPrompt: string,
   tools: any[],
+  options?: CallLLMOptions,
 ) => Promise<any>;
 
+const DEFAULT_MODEL = 'claude-3-5-sonnet-20240620';
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Models a sampling request may pick from, most capable first
+const SAMPLING_MODELS = [
+  'claude-3-opus-20240229',
+  'claude-3-5-sonnet-20240620',
+  'claude-3-5-haiku-20241022',
+];
+
+// Hints are substrings of model names, tried in order; without a match, favour a fast model when
+// the server cares more about cost or speed than intelligence
+function pickSamplingModel(preferences?: ModelPreferences): string {
+  for (const hint of preferences?.hints ?? []) {
+    const model = hint.name && SAMPLING_MODELS.find((candidate) => candidate.includes(hint.name!));
+    if (model) return model;
+  }
+  const intelligence = preferences?.intelligencePriority ?? 0.5;
+  const economy = Math.max(preferences?.costPriority ?? 0, preferences?.speedPriority ?? 0);
+  return economy > intelligence ? 'claude-3-5-haiku-20241022' : DEFAULT_MODEL;
+}
+
 interface AgentContextValue {
   messages: Message[];
   sendMessage: (m: string | ContentBlock[]) => Promise<void>;
@@ -38,7 +69,7 @@ interface AgentContextValue {
   currentError?: string;
   mcpTools: Tool[];
   mcpResources: any[]; // TBD
-  mcpPrompts: any[]; // TBD
+  mcpPrompts: Prompt[];
 }
 
 const AgentCtx = createContext<AgentContextValue | undefined>(undefined);
@@ -59,7 +90,7 @@ export function AgentProvider({
   systemPrompt = DEFAULT_SYSTEM_PROMPT,
 }: Props) {
   const { webContainer } = useContext(WebContainerContext);
-  const { tools: mcpTools, resources: mcpResources, prompts: mcpPrompts, toolToServerMap, executeTool, status: mcpStatus } = useMcp();
+  const { tools: mcpTools, resources: mcpResources, prompts: mcpPrompts, toolToServerMap, executeTool, status: mcpStatus, registerSamplingLLM } = useMcp();
 
   const [messages, setMessages] = useState<Message[]>([{
     id: generateId(),
@@ -86,7 +117,7 @@ export function AgentProvider({
 
   /* -------------------------------------------------------------------- */
   // Basic vanilla fetch wrapper for Anthropic completion
-  const callLLM: CallLLMFunction = async (apiMsgs, sys, tools) => {
+  const callLLM: CallLLMFunction = async (apiMsgs, sys, tools, options = {}) => {
     if (!apiKey) {
       onRequestApiKey?.();
       throw new Error('API key required');
@@ -100,17 +131,51 @@ export function AgentProvider({
         'anthropic-dangerous-direct-browser-access': 'true',
       },
       body: JSON.stringify({
-        model: 'claude-3-5-sonnet-20240620',
-        max_tokens: 4096,
+        model: options.model ?? DEFAULT_MODEL,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
         messages: apiMsgs,
         system: sys,
         tools,
+        ...(options.temperature !== undefined && { temperature: options.temperature }),
+        ...(options.stopSequences?.length && { stop_sequences: options.stopSequences }),
       }),
     });
     if (!resp.ok) throw new Error(`LLM error ${resp.status}`);
     return resp.json();
   };
 
+  /* -------------------------------------------------------------------- */
+  // Serve approved MCP sampling requests with the same LLM
+  useEffect(() => registerSamplingLLM(async (params) => {
+    const apiMsgs: AnthropicMessage[] = params.messages.map((m) => ({
+      role: m.role,
+      content: (Array.isArray(m.content) ? m.content : [m.content])
+        .map((c: any) => (c.type === 'text' ? c.text : `[${c.type} content]`))
+        .join('\n'),
+    }));
+    const data = await callLLM(apiMsgs, params.systemPrompt ?? '', [], {
+      model: pickSamplingModel(params.modelPreferences),
+      maxTokens: params.maxTokens,
+      temperature: params.temperature,
+      stopSequences: params.stopSequences,
+    });
+    const text = (data.content ?? [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('\n');
+    const stopReasons: Record<string, CreateMessageResult['stopReason']> = {
+      end_turn: 'endTurn',
+      max_tokens: 'maxTokens',
+      stop_sequence: 'stopSequence',
+    };
+    return {
+      model: data.model,
+      role: 'assistant',
+      content: { type: 'text', text },
+      stopReason: stopReasons[data.stop_reason] ?? data.stop_reason,
+    };
+  }), [registerSamplingLLM, apiKey]);
+
   /* -------------------------------------------------------------------- */
   const handleToolCall = useCallback(async (name: string, input: any): Promise<ToolResult> => {
     // If MCP tool
@@ -120,7 +185,13 @@ export function AgentProvider({
       }
       try {
         const result = await executeTool(name, input);
-        return { status: 'success', message: 'ok', ...result } as ToolResult;
+        const { content, structuredContent } = result;
+        // Errors reported by the tool itself arrive as results with isError set
+        if (result.isError) {
+          const text = content.find((item) => item.type === 'text');
+          return { status: 'error', error: text && 'text' in text ? text.text : `Tool ${name} failed`, content: content as any };
+        }
+        return { status: 'success', message: 'ok', content: content as any, structuredContent };
       } catch (e: any) {
         return { status: 'error', error: e.message };
       }
@@ -132,7 +203,15 @@ export function AgentProvider({
   /* -------------------------------------------------------------------- */
   const process = useCallback(async (hist: Message[]) => {
     const apiMsgs = toAnthropic(hist);
-    const allTools = [...DEFAULT_TOOLS, ...mcpTools];
+    // MCP tools are exposed under their server-qualified names
+    const allTools = [
+      ...DEFAULT_TOOLS,
+      ...mcpTools.map((tool) => ({
+        name: tool.name,
+        description: tool.description || `Tool: ${tool.name}`,
+        input_schema: tool.inputSchema,
+      })),
+    ];
     const data = await callLLM(apiMsgs, systemPrompt, allTools);
 
     let newHist = [...hist];
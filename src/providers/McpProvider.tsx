@@ -3,6 +3,7 @@ import React, {
   useCallback,
   useContext,
   useEffect,
+  useMemo,
   useRef,
   useState,
   ReactNode,
@@ -11,17 +12,44 @@ import { WebContainerContext } from '@/wmcp/providers/Webcontainer';
 import {
   MCPClientManager,
   ServerConfig,
+  ListChangedKind,
+  ServerStartupStatus,
+  rootsFromDirectories,
+  ToolCallOptions,
+  StructuredToolCallOptions,
+  CompletionRef,
+  EnvGroupResolver,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+  DEFAULT_NPX_SERVER_CONFIGS,
 } from '@/wmcp/lib/McpClientManager';
+import { ToolPermissionPolicy, createWorkspaceToolPolicy } from '@/wmcp/lib/ToolPermissionPolicy';
+import { WEBCONTAINER_FS_SERVER_CONFIG } from '@/wmcp/lib/webContainerFsServer';
+import type { ServerLogStore } from '@/wmcp/lib/ServerLogStore';
+import type { ProtocolInspector } from '@/wmcp/lib/ProtocolInspector';
+import { loadServerState, saveServerState } from './mcpServerStore';
+import { SamplingApprovalDialog, SamplingRequest } from '@/wmcp/components/mcp/SamplingApprovalDialog';
+import { ElicitationDialog, ElicitationRequest } from '@/wmcp/components/mcp/ElicitationDialog';
+import { ToolApprovalDialog } from '@/wmcp/components/mcp/ToolApprovalDialog';
 import type {
   Tool,
   Resource,
+  ResourceTemplate,
+  Prompt,
+  GetPromptResult,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitResult,
+  LoggingLevel,
+  CallToolResult,
+  Request,
 } from '@modelcontextprotocol/sdk/types.js';
 import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
 
 /*
   McpProvider is a context wrapper responsible for managing Model-Context-Protocol
   servers inside a WebContainer.  It exposes helper functions to activate/
-  deactivate servers, list & execute tools, and read resources.
+  deactivate servers, list & execute tools, read resources and render prompts.
 */
 
 export type MCPServerStatus =
@@ -29,30 +57,30 @@ export type MCPServerStatus =
   | 'NO_WEBCONTAINER_CONTEXT'
   | 'STARTING'
   | 'READY'
+  | 'RESTARTING'
   | 'ERROR';
 
+// Completes an approved sampling request with the app's LLM.
+export type SamplingLLM = (params: CreateMessageRequest['params']) => Promise<CreateMessageResult>;
+
+type PendingSampling = SamplingRequest & {
+  resolve: (result: CreateMessageResult) => void;
+  reject: (error: Error) => void;
+};
+
+type PendingElicitation = ElicitationRequest & {
+  resolve: (result: ElicitResult) => void;
+};
+
+type PendingToolApproval = ToolApprovalRequest & {
+  resolve: (decision: ToolApprovalDecision) => void;
+};
+
 // Default server configs.  These mirror the ones used previously in Cursor.tsx.
 export const DEFAULT_SERVER_CONFIGS: Record<string, ServerConfig> = {
-  memory: {
-    command: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-memory'],
-    env: {},
-  },
-  filesystem: {
-    command: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-filesystem', '/'],
-    env: {},
-  },
-  'sequential-thinking': {
-    command: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-sequential-thinking'],
-    env: {},
-  },
-  everything: {
-    command: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-everything'],
-    env: {},
-  },
+  ...DEFAULT_NPX_SERVER_CONFIGS,
+  // Runs in the page, so it is available without an npm install
+  'webcontainer-fs': WEBCONTAINER_FS_SERVER_CONFIG,
 };
 
 interface McpContextValue {
@@ -60,19 +88,37 @@ interface McpContextValue {
   error?: Error;
   tools: Tool[];
   resources: Resource[];
-  prompts: any[]; // Placeholder – prompts are not yet surfaced
+  resourceTemplates: ResourceTemplate[];
+  prompts: Prompt[];
   activeServers: Record<string, ServerConfig>;
   availableServers: Record<string, ServerConfig>;
   toolToServerMap: Map<string, string>;
+  toolCollisions: Map<string, string[]>;
+  promptToServerMap: Map<string, string>;
   webContainerReady: boolean;
   activateServer: (name: string) => void;
   deactivateServer: (name: string) => void;
   addCustomServer: (name: string, cfg: ServerConfig) => void;
-  executeTool: (name: string, args: any) => Promise<any>;
+  restartServer: (name: string) => Promise<void>;
+  executeTool: (name: string, args: any, options?: ToolCallOptions) => Promise<CallToolResult>;
+  executeToolStructured: <T = Record<string, unknown>>(name: string, args: any, options?: StructuredToolCallOptions<T>) => Promise<T>;
   readResource: (uri: string) => Promise<ReadResourceResult>;
+  getPrompt: (name: string, args?: Record<string, string>) => Promise<GetPromptResult>;
+  completeArgument: (ref: CompletionRef, argumentName: string, value: string, context?: Record<string, string>) => Promise<string[]>;
+  logStore?: ServerLogStore;
+  setServerLogLevel: (serverName: string, level: LoggingLevel) => Promise<void>;
+  getServerLogLevel: (serverName: string) => LoggingLevel | undefined;
+  inspector?: ProtocolInspector;
+  replayRequest: (serverName: string, request: Request) => Promise<unknown>;
+  resourceVersions: Record<string, number>;
+  serverStatuses: Record<string, ServerStartupStatus>;
+  subscribeResource: (uri: string) => Promise<void>;
+  unsubscribeResource: (uri: string) => Promise<void>;
   refreshTools: () => Promise<void>;
   refreshResources: () => Promise<void>;
   refreshPrompts: () => Promise<void>;
+  registerSamplingLLM: (llm: SamplingLLM) => () => void;
+  toolPolicy: ToolPermissionPolicy;
 }
 
 const McpContext = createContext<McpContextValue | undefined>(undefined);
@@ -81,97 +127,256 @@ interface ProviderProps {
   children: ReactNode;
   initialActiveServers?: Record<string, ServerConfig>;
   initialAvailableServers?: Record<string, ServerConfig>;
+  // Decrypts the env groups stdio server configs refer to
+  envGroupResolver?: EnvGroupResolver;
+  // Save custom servers and the active set in PGlite and restore them on the next load
+  persistServers?: boolean;
+  // Encrypts the env values of persisted servers
+  persistenceKey?: CryptoKey | null;
+  // Tool permissions are saved per workspace; ignored when toolPolicy is given
+  workspaceId?: string;
+  // Decides which tool calls run, need approval or are refused
+  toolPolicy?: ToolPermissionPolicy;
 }
 
 export function McpProvider({
   children,
   initialActiveServers = {},
   initialAvailableServers = DEFAULT_SERVER_CONFIGS,
+  envGroupResolver,
+  persistServers = false,
+  persistenceKey = null,
+  workspaceId,
+  toolPolicy: toolPolicyProp,
 }: ProviderProps) {
-  const { webContainer, status: wcStatus } = useContext(WebContainerContext);
+  const { webContainer, status: wcStatus, portForwards, filesystemDirectories, packageCache } = useContext(WebContainerContext);
   const webContainerReady = wcStatus === 'ready';
 
   // State
   const [activeServers, setActiveServers] = useState<Record<string, ServerConfig>>(initialActiveServers);
   const [availableServers, setAvailableServers] = useState<Record<string, ServerConfig>>(initialAvailableServers);
-  const [status, setStatus] = useState<MCPServerStatus>('IDLE');
+  // Servers wait for the saved state so a reload doesn't start the initial set first
+  const [serversLoaded, setServersLoaded] = useState<boolean>(!persistServers);
+  const lockedServerNamesRef = useRef<string[]>([]);
+  const persistRef = useRef<Promise<void>>(Promise.resolve());
   const [error, setError] = useState<Error | undefined>(undefined);
   const [tools, setTools] = useState<Tool[]>([]);
   const [resources, setResources] = useState<Resource[]>([]);
-  const [prompts, setPrompts] = useState<any[]>([]);
+  const [resourceTemplates, setResourceTemplates] = useState<ResourceTemplate[]>([]);
+  const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [toolToServerMap, setToolToServerMap] = useState<Map<string, string>>(new Map());
+  const [toolCollisions, setToolCollisions] = useState<Map<string, string[]>>(new Map());
+  const [promptToServerMap, setPromptToServerMap] = useState<Map<string, string>>(new Map());
+  const [resourceVersions, setResourceVersions] = useState<Record<string, number>>({});
+  const [serverStatuses, setServerStatuses] = useState<Record<string, ServerStartupStatus>>({});
+  const [samplingQueue, setSamplingQueue] = useState<PendingSampling[]>([]);
+  const samplingLLMRef = useRef<SamplingLLM | null>(null);
+  const [elicitationQueue, setElicitationQueue] = useState<PendingElicitation[]>([]);
+  const [toolApprovalQueue, setToolApprovalQueue] = useState<PendingToolApproval[]>([]);
+  const toolPolicy = useMemo(
+    () => toolPolicyProp ?? createWorkspaceToolPolicy(workspaceId),
+    [toolPolicyProp, workspaceId],
+  );
 
   const managerRef = useRef<MCPClientManager | null>(null);
-  const initializingRef = useRef(false);
+  const managerListenersRef = useRef<Array<() => void>>([]);
+  const reconcileRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Create a manager whose list/resource notifications flow into state.
+  const createManager = (container: NonNullable<typeof webContainer>) => {
+    const manager = new MCPClientManager(container);
+    // Sampling requests wait in a queue until the user approves or declines them
+    manager.setSamplingHandler((serverName, params) =>
+      new Promise<CreateMessageResult>((resolve, reject) => {
+        setSamplingQueue((prev) => [...prev, { serverName, params, resolve, reject }]);
+      }),
+    );
+    // Elicitation requests are answered through a form, one at a time
+    manager.setElicitationHandler((serverName, params) =>
+      new Promise<ElicitResult>((resolve) => {
+        setElicitationQueue((prev) => [...prev, { serverName, params, resolve }]);
+      }),
+    );
+    // Tool calls the policy asks about wait for the user, one at a time
+    manager.setToolApprovalHandler((request, signal) =>
+      new Promise<ToolApprovalDecision>((resolve) => {
+        const pending = { ...request, resolve };
+        setToolApprovalQueue((prev) => [...prev, pending]);
+        // The call gave up waiting, so stop asking
+        signal.addEventListener('abort', () => {
+          setToolApprovalQueue((prev) => prev.filter((entry) => entry !== pending));
+        });
+      }),
+    );
+    manager.setToolPolicy(toolPolicy);
+    // Ports forwarded before the manager existed won't fire server-ready again
+    Object.entries(portForwards).forEach(([port, origin]) => manager.registerForwardedPort(Number(port), origin));
+    manager.setRoots(rootsFromDirectories(filesystemDirectories, container.workdir));
+    manager.setEnvGroupResolver(envGroupResolver ?? null);
+    manager.setPackageCache(packageCache);
+    managerListenersRef.current = [
+      manager.onListChanged((_serverName: string, kind: ListChangedKind) => {
+        syncList(manager, kind);
+      }),
+      manager.onResourceUpdated((uri: string) => {
+        setResourceVersions((prev) => ({ ...prev, [uri]: (prev[uri] || 0) + 1 }));
+      }),
+      manager.onServerStatus((serverName: string, serverStatus: ServerStartupStatus, serverError?: Error) => {
+        setServerStatuses((prev) => ({ ...prev, [serverName]: serverStatus }));
+        if (serverError) setError(serverError);
+      }),
+    ];
+    return manager;
+  };
+
+  const syncList = async (manager: MCPClientManager, kind: ListChangedKind) => {
+    if (kind === 'tools') {
+      setTools(await manager.listAllTools());
+      setToolToServerMap(new Map(manager.toolToServerMap));
+      setToolCollisions(new Map(manager.toolCollisions));
+    } else if (kind === 'resources') {
+      setResources(await manager.listAllResources());
+      setResourceTemplates(await manager.listAllResourceTemplates());
+    } else {
+      setPrompts(await manager.listAllPrompts());
+      setPromptToServerMap(new Map(manager.promptToServerMap));
+    }
+  };
+
+  const releaseManager = async () => {
+    if (!managerRef.current) return;
+    managerListenersRef.current.forEach((unsubscribe) => unsubscribe());
+    managerListenersRef.current = [];
+    await managerRef.current.disconnectAll();
+    managerRef.current = null;
+  };
 
   const debouncedActiveServers = useDebounce(activeServers, 500);
 
-  // Core effect – (re)initialise manager whenever WC or server set changes.
-  useEffect(() => {
-    const initialize = async () => {
-      if (!webContainer) {
-        setStatus('NO_WEBCONTAINER_CONTEXT');
-        return;
-      }
-      if (!webContainerReady) {
-        setStatus('IDLE');
-        return;
-      }
-
-      const currentServers = debouncedActiveServers;
-      const serverCount = Object.keys(currentServers).length;
-
-      // Disconnect if none active
-      if (serverCount === 0) {
-        if (managerRef.current) {
-          await managerRef.current.disconnectAll();
-          managerRef.current = null;
+  // Start and stop only the servers that differ from what the manager runs.
+  const reconcileServers = async (
+    container: NonNullable<typeof webContainer>,
+    desired: Record<string, ServerConfig>,
+  ) => {
+    if (!managerRef.current) {
+      managerRef.current = createManager(container);
+    }
+    const manager = managerRef.current;
+    setError(undefined);
+
+    // Stop servers that were deactivated or whose config changed
+    const stale = manager.getServerNames().filter((name) => {
+      const config = manager.getServerConfig(name);
+      return !desired[name] || JSON.stringify(config) !== JSON.stringify(desired[name]);
+    });
+    for (const name of stale) {
+      await manager.removeServer(name);
+      setServerStatuses(({ [name]: _, ...rest }) => rest);
+    }
+
+    // Start servers the manager isn't running yet
+    const running = new Set(manager.getServerNames());
+    const added = Object.keys(desired).filter((name) => !running.has(name));
+    await Promise.all(
+      added.map(async (name) => {
+        try {
+          await manager.addServer(name, desired[name]);
+        } catch (err) {
+          console.error(`McpProvider failed to start ${name}`, err);
+          setError(err instanceof Error ? err : new Error(String(err)));
         }
-        setTools([]);
-        setResources([]);
-        setPrompts([]);
-        setToolToServerMap(new Map());
-        setStatus('IDLE');
-        return;
-      }
-
-      // Avoid concurrent initialisations
-      if (initializingRef.current) return;
-      initializingRef.current = true;
-
-      try {
-        setStatus('STARTING');
-        setError(undefined);
-
-        if (!managerRef.current) {
-          managerRef.current = new MCPClientManager(webContainer);
-        } else {
-          await managerRef.current.disconnectAll();
+      }),
+    );
+
+    await Promise.all((['tools', 'resources', 'prompts'] as ListChangedKind[]).map((kind) => syncList(manager, kind)));
+  };
+
+  // Restore saved servers; runs again with a new key so encrypted env values can be read
+  useEffect(() => {
+    if (!persistServers) return;
+
+    let cancelled = false;
+    setServersLoaded(false);
+    loadServerState(persistenceKey)
+      .then((saved) => {
+        if (cancelled) return;
+        if (saved) {
+          const servers = { ...initialAvailableServers, ...saved.customServers };
+          lockedServerNamesRef.current = saved.lockedServerNames;
+          setAvailableServers(servers);
+          setActiveServers(Object.fromEntries(
+            saved.activeServerNames.filter((name) => servers[name]).map((name) => [name, servers[name]]),
+          ));
         }
+        setServersLoaded(true);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('McpProvider could not load saved servers', err);
+        setServersLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [persistServers, persistenceKey]);
+
+  // Save after every change; writes are chained so they land in order
+  useEffect(() => {
+    if (!persistServers || !serversLoaded) return;
+
+    persistRef.current = persistRef.current
+      .then(() => saveServerState(availableServers, activeServers, initialAvailableServers, lockedServerNamesRef.current, persistenceKey))
+      .catch((err) => console.error('McpProvider could not save servers', err));
+  }, [persistServers, serversLoaded, availableServers, activeServers, persistenceKey]);
 
-        await managerRef.current.initialize({ ...currentServers });
-        await refreshTools();
-        await refreshResources();
-        setToolToServerMap(new Map(managerRef.current.toolToServerMap));
-        setStatus('READY');
-      } catch (err: any) {
-        console.error('McpProvider initialise error', err);
+  // Reconcile whenever WC or the server set changes. Runs are chained so a
+  // change made while servers are still starting is applied afterwards. A new
+  // env group resolver (e.g. after logging in) retries servers that failed to start.
+  useEffect(() => {
+    if (!webContainer || !webContainerReady || !serversLoaded) return;
+    // Restored servers reach activeServers before the debounced copy catches up
+    if (persistServers && debouncedActiveServers !== activeServers) return;
+
+    const desired = debouncedActiveServers;
+    reconcileRef.current = reconcileRef.current
+      .then(() => reconcileServers(webContainer, desired))
+      .catch((err) => {
+        console.error('McpProvider reconcile error', err);
         setError(err instanceof Error ? err : new Error(String(err)));
-        setStatus('ERROR');
-        if (managerRef.current) {
-          await managerRef.current.disconnectAll();
-          managerRef.current = null;
-        }
-        setTools([]);
-        setResources([]);
-        setToolToServerMap(new Map());
-      } finally {
-        initializingRef.current = false;
-      }
+      });
+  }, [webContainer, webContainerReady, serversLoaded, debouncedActiveServers, envGroupResolver]);
+
+  // Keep roots in step with the filesystems registered on the WebContainer
+  useEffect(() => {
+    managerRef.current?.setRoots(rootsFromDirectories(filesystemDirectories, webContainer?.workdir));
+  }, [filesystemDirectories, webContainer]);
+
+  // Servers spawned after logging in can use the new key
+  useEffect(() => {
+    managerRef.current?.setEnvGroupResolver(envGroupResolver ?? null);
+  }, [envGroupResolver]);
+
+  useEffect(() => {
+    managerRef.current?.setToolPolicy(toolPolicy);
+  }, [toolPolicy]);
+
+  // Release every server when the provider unmounts
+  useEffect(() => {
+    return () => {
+      reconcileRef.current = reconcileRef.current.then(() => releaseManager());
     };
+  }, []);
 
-    initialize();
-  }, [webContainer, webContainerReady, debouncedActiveServers]);
+  // Overall status, derived from the per-server statuses
+  const status: MCPServerStatus = useMemo(() => {
+    if (!webContainer) return 'NO_WEBCONTAINER_CONTEXT';
+    const statuses = Object.values(serverStatuses);
+    if (!webContainerReady || statuses.length === 0) return 'IDLE';
+    if (statuses.includes('ready')) return 'READY';
+    if (statuses.includes('restarting')) return 'RESTARTING';
+    if (statuses.some((s) => s === 'spawning' || s === 'initializing')) return 'STARTING';
+    return 'ERROR';
+  }, [webContainer, webContainerReady, serverStatuses]);
 
   // ---- action helpers ---------------------------------------------------
   const activateServer = useCallback(
@@ -193,11 +398,29 @@ export function McpProvider({
     setAvailableServers((prev) => ({ ...prev, [name]: cfg }));
   }, []);
 
-  const executeTool = useCallback(async (toolName: string, args: any) => {
+  const restartServer = useCallback(async (name: string) => {
+    if (!managerRef.current) {
+      throw new Error('MCP not ready');
+    }
+    const manager = managerRef.current;
+    // Queue behind any reconcile in flight so the two don't race
+    const restart = reconcileRef.current.then(() => manager.restartServer(name));
+    reconcileRef.current = restart.catch(() => undefined);
+    await restart;
+  }, []);
+
+  const executeTool = useCallback(async (toolName: string, args: any, options?: ToolCallOptions) => {
+    if (status !== 'READY' || !managerRef.current) {
+      throw new Error('MCP not ready');
+    }
+    return managerRef.current.callTool(toolName, args, options);
+  }, [status]);
+
+  const executeToolStructured = useCallback(async <T,>(toolName: string, args: any, options?: StructuredToolCallOptions<T>) => {
     if (status !== 'READY' || !managerRef.current) {
       throw new Error('MCP not ready');
     }
-    return managerRef.current.callTool(toolName, args);
+    return managerRef.current.callToolStructured<T>(toolName, args, options);
   }, [status]);
 
   const readResource = useCallback(async (uri: string): Promise<ReadResourceResult> => {
@@ -207,46 +430,176 @@ export function McpProvider({
     return managerRef.current.readResource(uri);
   }, [status]);
 
+  const getPrompt = useCallback(async (name: string, args?: Record<string, string>): Promise<GetPromptResult> => {
+    if (status !== 'READY' || !managerRef.current) {
+      throw new Error('MCP not ready');
+    }
+    return managerRef.current.getPrompt(name, args);
+  }, [status]);
+
+  const completeArgument = useCallback(async (
+    ref: CompletionRef,
+    argumentName: string,
+    value: string,
+    context?: Record<string, string>,
+  ): Promise<string[]> => {
+    if (status !== 'READY' || !managerRef.current) return [];
+    return managerRef.current.completeArgument(ref, argumentName, value, context);
+  }, [status]);
+
+  const setServerLogLevel = useCallback(async (serverName: string, level: LoggingLevel) => {
+    if (!managerRef.current) {
+      throw new Error('MCP not ready');
+    }
+    await managerRef.current.setServerLogLevel(serverName, level);
+  }, []);
+
+  const getServerLogLevel = useCallback(
+    (serverName: string) => managerRef.current?.getServerLogLevel(serverName),
+    [],
+  );
+
+  const replayRequest = useCallback(async (serverName: string, request: Request) => {
+    if (!managerRef.current) {
+      throw new Error('MCP not ready');
+    }
+    return managerRef.current.replayRequest(serverName, request);
+  }, []);
+
+  const subscribeResource = useCallback(async (uri: string) => {
+    if (status !== 'READY' || !managerRef.current) {
+      throw new Error('MCP not ready');
+    }
+    await managerRef.current.subscribeResource(uri);
+  }, [status]);
+
+  const unsubscribeResource = useCallback(async (uri: string) => {
+    if (!managerRef.current) return;
+    await managerRef.current.unsubscribeResource(uri);
+  }, []);
+
   const refreshTools = useCallback(async () => {
     if (status !== 'READY' || !managerRef.current) return;
     const list = await managerRef.current.listAllTools();
     setTools(list);
     setToolToServerMap(new Map(managerRef.current.toolToServerMap));
+    setToolCollisions(new Map(managerRef.current.toolCollisions));
   }, [status]);
 
   const refreshResources = useCallback(async () => {
     if (status !== 'READY' || !managerRef.current) return;
     const list = await managerRef.current.listAllResources();
     setResources(list);
+    setResourceTemplates(await managerRef.current.listAllResourceTemplates());
   }, [status]);
 
   const refreshPrompts = useCallback(async () => {
-    // Placeholder – implement when MCP supports prompt listing
-    setPrompts([]);
+    if (status !== 'READY' || !managerRef.current) return;
+    const list = await managerRef.current.listAllPrompts();
+    setPrompts(list);
+    setPromptToServerMap(new Map(managerRef.current.promptToServerMap));
+  }, [status]);
+
+  const registerSamplingLLM = useCallback((llm: SamplingLLM) => {
+    samplingLLMRef.current = llm;
+    return () => {
+      if (samplingLLMRef.current === llm) samplingLLMRef.current = null;
+    };
   }, []);
 
+  const approveSampling = () => {
+    const [pending] = samplingQueue;
+    if (!pending) return;
+    setSamplingQueue((prev) => prev.slice(1));
+
+    const llm = samplingLLMRef.current;
+    if (!llm) {
+      pending.reject(new Error('No LLM is available for sampling'));
+      return;
+    }
+    llm(pending.params).then(pending.resolve, pending.reject);
+  };
+
+  const rejectSampling = () => {
+    const [pending] = samplingQueue;
+    if (!pending) return;
+    setSamplingQueue((prev) => prev.slice(1));
+    pending.reject(new Error('User declined the sampling request'));
+  };
+
+  const answerElicitation = (result: ElicitResult) => {
+    const [pending] = elicitationQueue;
+    if (!pending) return;
+    setElicitationQueue((prev) => prev.slice(1));
+    pending.resolve(result);
+  };
+
+  const decideToolApproval = (decision: ToolApprovalDecision) => {
+    const [pending] = toolApprovalQueue;
+    if (!pending) return;
+    setToolApprovalQueue((prev) => prev.slice(1));
+    pending.resolve(decision);
+  };
+
   // ---- provide context --------------------------------------------------
   const value: McpContextValue = {
     status,
     error,
     tools,
     resources,
+    resourceTemplates,
     prompts,
     activeServers,
     availableServers,
     toolToServerMap,
+    toolCollisions,
+    promptToServerMap,
     webContainerReady,
     activateServer,
     deactivateServer,
     addCustomServer,
+    restartServer,
     executeTool,
+    executeToolStructured,
     readResource,
+    getPrompt,
+    completeArgument,
+    logStore: managerRef.current?.logStore,
+    setServerLogLevel,
+    getServerLogLevel,
+    inspector: managerRef.current?.inspector,
+    replayRequest,
+    resourceVersions,
+    serverStatuses,
+    subscribeResource,
+    unsubscribeResource,
     refreshTools,
     refreshResources,
     refreshPrompts,
+    registerSamplingLLM,
+    toolPolicy,
   };
 
-  return <McpContext.Provider value={value}>{children}</McpContext.Provider>;
+  return (
+    <McpContext.Provider value={value}>
+      {children}
+      <SamplingApprovalDialog
+        request={samplingQueue[0] ?? null}
+        onApprove={approveSampling}
+        onReject={rejectSampling}
+      />
+      <ElicitationDialog
+        request={elicitationQueue[0] ?? null}
+        onAccept={(content) => answerElicitation({ action: 'accept', content })}
+        onDecline={() => answerElicitation({ action: 'decline' })}
+        onCancel={() => answerElicitation({ action: 'cancel' })}
+      />
+      <ToolApprovalDialog
+        request={toolApprovalQueue[0] ?? null}
+        onDecide={decideToolApproval}
+      />
+    </McpContext.Provider>
+  );
 }
 
 export function useMcp(): McpContextValue {
@@ -255,6 +608,43 @@ export function useMcp(): McpContextValue {
   return ctx;
 }
 
+// Read a resource and keep it current via resources/subscribe while mounted.
+export function useMcpResource(uri: string | null) {
+  const { status, readResource, subscribeResource, unsubscribeResource, resourceVersions } = useMcp();
+  const [data, setData] = useState<ReadResourceResult | null>(null);
+  const [error, setError] = useState<Error | undefined>(undefined);
+  const version = uri ? resourceVersions[uri] || 0 : 0;
+
+  useEffect(() => {
+    if (!uri || status !== 'READY') return;
+    subscribeResource(uri).catch((err) => {
+      console.warn(`Could not subscribe to ${uri}`, err);
+    });
+    return () => {
+      unsubscribeResource(uri).catch((err) => {
+        console.warn(`Could not unsubscribe from ${uri}`, err);
+      });
+    };
+  }, [uri, status, subscribeResource, unsubscribeResource]);
+
+  useEffect(() => {
+    if (!uri || status !== 'READY') return;
+    let cancelled = false;
+    readResource(uri)
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uri, status, version, readResource]);
+
+  return { data, error };
+}
+
 // -------------------------------------------------------------------------
 // util – simple debounce for object values
 function useDebounce<T>(value: T, delay = 300): T {
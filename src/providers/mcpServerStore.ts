@@ -0,0 +1,154 @@
+import { getDB, initSchema, createDBOperations } from '../pglite/db-core';
+import type { ParseSchema } from '../pglite/types';
+import { RemoteServerConfig, ServerConfig, StdioServerConfig, isInPageServerConfig, isRemoteServerConfig } from '@/wmcp/lib/McpClientManager';
+
+// One row per available server. `config` is only filled in for servers added at runtime; built-in
+// servers come from code so they pick up changes. Stdio env values and remote headers (where
+// API tokens go) live in `env` and `headers` rather than in `config`. Those are TEXT columns, so
+// they are encrypted when a key is given; `env_encrypted` covers both.
+export const MCP_SERVER_STORE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS mcp_servers (
+    id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    config JSONB,
+    env TEXT,
+    headers TEXT,
+    env_encrypted BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  ALTER TABLE mcp_servers ADD COLUMN IF NOT EXISTS headers TEXT;
+`;
+
+type McpServerRow = ParseSchema<typeof MCP_SERVER_STORE_SCHEMA>['mcp_servers'];
+
+export const MCP_SERVER_DB_NAME = 'mcp-server-store';
+
+export type PersistedServerState = {
+  // Servers added with addCustomServer, keyed by name
+  customServers: Record<string, ServerConfig>;
+  activeServerNames: string[];
+  // Servers whose env was encrypted with a key that isn't available now; saves leave them alone
+  lockedServerNames: string[];
+};
+
+async function openServerStore(encryptionKey: CryptoKey | null) {
+  const database = await getDB(MCP_SERVER_DB_NAME);
+  await initSchema(database, MCP_SERVER_STORE_SCHEMA);
+  return {
+    // Rows as stored, so plain and encrypted env values can be told apart by env_encrypted
+    plain: createDBOperations(database, MCP_SERVER_STORE_SCHEMA, null),
+    secure: encryptionKey ? createDBOperations(database, MCP_SERVER_STORE_SCHEMA, encryptionKey) : null,
+  };
+}
+
+// The values in an env or headers column; null when the column is set but can't be read, e.g.
+// because it was encrypted with a different key or the decryption failed
+function parseSecretColumn(stored: string | null, readable: string | null | undefined): Record<string, string> | null {
+  if (!stored) {
+    return {};
+  }
+  try {
+    return readable ? JSON.parse(readable) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the saved servers, or null if nothing has been saved yet
+ */
+export async function loadServerState(encryptionKey: CryptoKey | null): Promise<PersistedServerState | null> {
+  const { plain, secure } = await openServerStore(encryptionKey);
+  const rows = await plain.mcp_servers.findMany({ orderBy: { id: 'asc' } });
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const state: PersistedServerState = { customServers: {}, activeServerNames: [], lockedServerNames: [] };
+  for (const row of rows) {
+    const readable = row.env_encrypted
+      ? (secure ? await secure.mcp_servers.findUnique({ id: row.id }) : null)
+      : row;
+    const env = parseSecretColumn(row.env, readable?.env);
+    const headers = parseSecretColumn(row.headers, readable?.headers);
+    if (!env || !headers) {
+      state.lockedServerNames.push(row.name);
+      continue;
+    }
+
+    if (row.is_active) {
+      state.activeServerNames.push(row.name);
+    }
+    // Rows saved by name only have an empty (or, from older saves, null) config
+    if (row.config && Object.keys(row.config).length > 0) {
+      const config = row.config as StdioServerConfig | RemoteServerConfig;
+      state.customServers[row.name] = isRemoteServerConfig(config)
+        ? { ...config, ...(Object.keys(headers).length > 0 && { headers }) }
+        : { ...config, env };
+    }
+  }
+  return state;
+}
+
+/**
+ * Replace the saved servers with the given ones. Servers whose config is the one in
+ * `builtInServers` are saved by name only, as are in-page servers, which can't be serialized.
+ */
+export async function saveServerState(
+  availableServers: Record<string, ServerConfig>,
+  activeServers: Record<string, ServerConfig>,
+  builtInServers: Record<string, ServerConfig>,
+  lockedServerNames: string[],
+  encryptionKey: CryptoKey | null,
+): Promise<void> {
+  const { plain, secure } = await openServerStore(encryptionKey);
+  const rows = await plain.mcp_servers.findMany();
+  const rowIds = new Map(rows.map((row) => [row.name, row.id]));
+
+  for (const [name, config] of Object.entries(availableServers)) {
+    if (lockedServerNames.includes(name)) continue;
+
+    // Built-in and in-page servers are saved by name only, with an empty config
+    let storedConfig: Record<string, any> = {};
+    let env: Record<string, string> = {};
+    let headers: Record<string, string> = {};
+    if (builtInServers[name] !== config && !isInPageServerConfig(config)) {
+      if (isRemoteServerConfig(config)) {
+        const { headers: configHeaders, ...rest } = config;
+        storedConfig = rest;
+        headers = configHeaders ?? {};
+      } else {
+        const { env: configEnv, ...rest } = config;
+        storedConfig = rest;
+        env = configEnv ?? {};
+      }
+    }
+
+    const hasSecrets = Object.keys(env).length > 0 || Object.keys(headers).length > 0;
+    const ops = hasSecrets && secure ? secure : plain;
+    // Empty strings rather than NULL so the row matches the schema's types
+    const data: Omit<McpServerRow, 'id'> = {
+      name,
+      config: storedConfig,
+      env: Object.keys(env).length > 0 ? JSON.stringify(env) : '',
+      headers: Object.keys(headers).length > 0 ? JSON.stringify(headers) : '',
+      env_encrypted: hasSecrets && !!secure,
+      is_active: name in activeServers,
+      updated_at: new Date(),
+    };
+
+    const id = rowIds.get(name);
+    if (id !== undefined) {
+      await ops.mcp_servers.update({ where: { id }, data });
+    } else {
+      await ops.mcp_servers.create(data);
+    }
+  }
+
+  for (const row of rows) {
+    if (!(row.name in availableServers) && !lockedServerNames.includes(row.name)) {
+      await plain.mcp_servers.delete({ id: row.id });
+    }
+  }
+}
@@ -8,6 +8,7 @@ import { WrenchIcon, Wand2, Send, Settings, MoreHorizontal, Plus, AlertCircle, S
 import { Menu, MenuItem } from '@/components/aria/Menu';
 import { animate, AnimatePresence, motion, useMotionTemplate, useMotionValue, useTransform } from 'framer-motion';
 import { Switch } from '@/components/aria/Switch';
+import { Checkbox, CheckboxGroup } from '@/components/aria/Checkbox';
 import {
   Disclosure,
   DisclosureGroup,
@@ -17,11 +18,23 @@ import {
 import { ActionCard } from '@/wmcp/components/layout/ActionCard';
 import { ChatList } from './ChatList';
 
-import { Tool } from '@modelcontextprotocol/sdk/types';
-import { ServerConfig } from '../../lib/McpClientManager';
+import { LoggingLevel, Progress, Tool } from '@modelcontextprotocol/sdk/types';
+import { DEFAULT_NPX_SERVER_CONFIGS, EnvGroupResolver, ServerConfig, ServerStartupStatus, TOOL_NAMESPACE_SEPARATOR, describeServerConfig, isInPageServerConfig, isRemoteServerConfig } from '../../lib/McpClientManager';
 import { MCPServerStatus, useMCPServer } from '../../hooks/useMcpServer';
 import { startRegistration, startAuthentication, WebAuthnError, deriveKey, encryptData, decryptData } from '../../../webauthn';
 import { LoadingIndicator } from '../status/LoadingIndicator';
+import { ToolCallProgress } from '../mcp/ToolCallProgress';
+import { StructuredContentView } from '../mcp/StructuredContentView';
+import { ServerConfigImportDialog, downloadServerConfigs } from '../mcp/ServerConfigImportDialog';
+import { ServerCatalogDialog } from '../mcp/ServerCatalogDialog';
+import { DEFAULT_SERVER_CATALOG, ServerCatalogEntry, mergeServerCatalogs } from '../../lib/serverCatalog';
+import { ServerLogViewer } from '../mcp/ServerLogViewer';
+import { ToolApprovalDialog } from '../mcp/ToolApprovalDialog';
+import { Select, SelectItem } from '@/components/aria/Select';
+import { DEFAULT_WORKSPACE_ID, ToolPermissionPolicy, ToolPermissionRule, defaultToolPermission } from '../../lib/ToolPermissionPolicy';
+import type { ServerLogStore } from '../../lib/ServerLogStore';
+import { ProtocolInspectorPanel, ProtocolInspectorPanelProps } from '../mcp/ProtocolInspectorPanel';
+import type { ProtocolInspector } from '../../lib/ProtocolInspector';
 import { ErrorDisplay } from '../status/ErrorDisplay';
 import { DatabaseContext } from '../../../pglite/db-context';
 
@@ -54,30 +67,6 @@ interface GenerateResponse {
   }[];
 }
 
-// Default server configurations
-const DEFAULT_SERVER_CONFIGS: Record<string, ServerConfig> = {
-  'memory': {
-    command: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-memory'],
-    env: {}
-  },
-  'filesystem': {
-    command: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-filesystem', '/'],
-    env: {}
-  },
-  'sequential-thinking': {
-    command: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-sequential-thinking'],
-    env: {}
-  },
-  'everything': {
-    command: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-everything'],
-    env: {}
-  }
-};
-
 // Wrap React Aria modal components so they support framer-motion values.
 const MotionModal = motion(Modal);
 const MotionModalOverlay = motion(ModalOverlay);
@@ -107,6 +96,36 @@ interface ServerConfigSheetProps {
   serverStatus?: MCPServerStatus | null;
   tools?: ToolDefinition[];
   serverToolMapping?: Record<string, string>;
+  toolCollisions?: Map<string, string[]>;
+  serverStatuses?: Record<string, ServerStartupStatus>;
+  logStore?: ServerLogStore;
+  onSetLogLevel?: (serverName: string, level: LoggingLevel) => Promise<void>;
+  // Level each server was last set to, shown when the sheet opens
+  getLogLevel?: (serverName: string) => LoggingLevel | undefined;
+  inspector?: ProtocolInspector;
+  onReplayRequest?: ProtocolInspectorPanelProps['onReplay'];
+  envGroupNames?: string[];
+  // Host app entries added to (or replacing) the bundled server catalog
+  catalog?: ServerCatalogEntry[];
+  // Makes servers added from the catalog available without activating them
+  onAddServers?: (servers: Record<string, ServerConfig>) => void;
+  // Stores secrets entered in the catalog in an encrypted env group
+  onSaveEnvGroup?: (groupName: string, variables: Record<string, string>) => Promise<void>;
+  // Shows a permission picker on each tool
+  toolPolicy?: ToolPermissionPolicy | null;
+}
+
+// Choices in the per-tool permission picker; 'default' removes the tool's rule
+const toolPermissionItems = [
+  { id: 'default', label: 'Default' },
+  { id: 'allow', label: 'Allow' },
+  { id: 'ask', label: 'Ask' },
+  { id: 'deny', label: 'Deny' },
+];
+
+// Rules are keyed by the server's own tool name, without the namespace
+function unqualifiedToolName(qualifiedName: string): string {
+  return qualifiedName.split(TOOL_NAMESPACE_SEPARATOR).slice(1).join(TOOL_NAMESPACE_SEPARATOR) || qualifiedName;
 }
 
 export function ServerConfigSheet({ 
@@ -117,7 +136,19 @@ export function ServerConfigSheet({
   onSave,
   serverStatus = null,
   tools = [],
-  serverToolMapping = {}
+  serverToolMapping = {},
+  toolCollisions,
+  serverStatuses = {},
+  logStore,
+  onSetLogLevel,
+  getLogLevel,
+  inspector,
+  onReplayRequest,
+  envGroupNames = [],
+  catalog,
+  toolPolicy,
+  onAddServers,
+  onSaveEnvGroup
 }: ServerConfigSheetProps) {
   // Track all available servers (default + custom)
   const [serverConfigs, setServerConfigs] = useState<Record<string, ServerConfig>>(availableServers);
@@ -130,6 +161,41 @@ export function ServerConfigSheet({
   const [newServerName, setNewServerName] = useState('');
   const [newServerCommand, setNewServerCommand] = useState('npx');
   const [newServerArgs, setNewServerArgs] = useState('-y @modelcontextprotocol/server-');
+  const [newServerTransport, setNewServerTransport] = useState<'stdio' | 'http' | 'sse'>('stdio');
+  const [newServerUrl, setNewServerUrl] = useState('http://localhost:3000/mcp');
+  const [logLevels, setLogLevels] = useState<Record<string, LoggingLevel>>({});
+  const [showInspector, setShowInspector] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showCatalog, setShowCatalog] = useState(false);
+  const [toolRules, setToolRules] = useState<ToolPermissionRule[]>(() => toolPolicy?.getRules() ?? []);
+
+  useEffect(() => {
+    setToolRules(toolPolicy?.getRules() ?? []);
+    return toolPolicy?.onChange(setToolRules);
+  }, [toolPolicy]);
+
+  const handleSetToolPermission = (serverKey: string, tool: Tool, key: string) => {
+    const toolName = unqualifiedToolName(tool.name);
+    if (key === 'default') {
+      toolPolicy?.removeRule(serverKey, toolName);
+    } else {
+      toolPolicy?.setRule({ server: serverKey, tool: toolName, permission: key as ToolPermissionRule['permission'] });
+    }
+  };
+
+  const toolPermissionKey = (serverKey: string, tool: Tool) => {
+    const toolName = unqualifiedToolName(tool.name);
+    return toolRules.find(rule => rule.server === serverKey && rule.tool === toolName)?.permission ?? 'default';
+  };
+
+  const handleSetLogLevel = async (serverKey: string, level: LoggingLevel) => {
+    try {
+      await onSetLogLevel?.(serverKey, level);
+      setLogLevels(prev => ({ ...prev, [serverKey]: level }));
+    } catch (error) {
+      console.error(`Error setting log level for ${serverKey}:`, error);
+    }
+  };
 
   // Reset selections and server configs when sheet opens
   useEffect(() => {
@@ -145,6 +211,10 @@ export function ServerConfigSheet({
       });
       
       setActiveServerStates(active);
+      setLogLevels(Object.fromEntries(Object.keys(availableServers).flatMap(key => {
+        const level = getLogLevel?.(key);
+        return level ? [[key, level]] : [];
+      })));
       setEditingServer(null);
       setShowAddServerForm(false);
     }
@@ -156,6 +226,16 @@ export function ServerConfigSheet({
       return "bg-gray-400"; // Idle/Inactive
     }
     
+    // Prefer the server's own startup status when we have one
+    const startupStatus = serverStatuses[serverKey];
+    if (startupStatus === 'ready') {
+      return "bg-green-500";
+    } else if (startupStatus === 'spawning' || startupStatus === 'initializing' || startupStatus === 'restarting') {
+      return "bg-yellow-500 animate-pulse";
+    } else if (startupStatus === 'error' || startupStatus === 'crashed') {
+      return "bg-red-500";
+    }
+    
     if (serverStatus === 'READY') {
       return "bg-green-500"; // Ready
     } else if (serverStatus === 'STARTING' || serverStatus === 'INSTALLING_NODE_MODULES') {
@@ -173,6 +253,21 @@ export function ServerConfigSheet({
       return "Inactive";
     }
     
+    const startupStatus = serverStatuses[serverKey];
+    if (startupStatus === 'ready') {
+      return "Ready";
+    } else if (startupStatus === 'spawning') {
+      return "Spawning";
+    } else if (startupStatus === 'initializing') {
+      return "Initializing";
+    } else if (startupStatus === 'restarting') {
+      return "Restarting";
+    } else if (startupStatus === 'crashed') {
+      return "Crashed";
+    } else if (startupStatus === 'error') {
+      return "Error";
+    }
+    
     if (serverStatus === 'READY') {
       return "Ready";
     } else if (serverStatus === 'STARTING') {
@@ -263,11 +358,16 @@ export function ServerConfigSheet({
     if (!newServerName || newServerName.trim() === '') return;
     
     const serverKey = newServerName.trim();
-    const newConfig: ServerConfig = {
-      command: newServerCommand,
-      args: newServerArgs.split(' ').filter(arg => arg),
-      env: {}
-    };
+    const newConfig: ServerConfig = newServerTransport === 'stdio'
+      ? {
+          command: newServerCommand,
+          args: newServerArgs.split(' ').filter(arg => arg),
+          env: {}
+        }
+      : {
+          type: newServerTransport,
+          url: newServerUrl.trim()
+        };
     
     // Add to server configs
     const updatedConfigs = {
@@ -291,9 +391,22 @@ export function ServerConfigSheet({
     setNewServerName('');
     setNewServerCommand('npx');
     setNewServerArgs('-y @modelcontextprotocol/server-');
+    setNewServerTransport('stdio');
+    setNewServerUrl('http://localhost:3000/mcp');
     setShowAddServerForm(false);
   };
   
+  // Imported servers replace same-named ones and start right away
+  // Add servers to the list without starting them, e.g. from an imported file or the catalog
+  const handleAddAvailableServers = (added: Record<string, ServerConfig>) => {
+    setServerConfigs({ ...serverConfigs, ...added });
+    setActiveServerStates({
+      ...activeServerStates,
+      ...Object.fromEntries(Object.keys(added).map(key => [key, false]))
+    });
+    onAddServers?.(added);
+  };
+  
   const handleDeleteServer = (serverKey: string) => {
     // Only allow deletion of custom servers, not defaults
     if (Object.keys(availableServers).includes(serverKey)) {
@@ -380,6 +493,23 @@ export function ServerConfigSheet({
               <p className="mb-4 text-gray-600 dark:text-gray-400">
                 Select which Model Context Protocol servers to activate. Toggle the switch to start or stop each server. Click on a server to view its tools.
               </p>
+
+              {toolCollisions && toolCollisions.size > 0 && (
+                <div className="mb-4 p-3 rounded-lg border border-yellow-300 bg-yellow-50 dark:border-yellow-700 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+                  <div className="flex items-center gap-2 font-medium mb-1">
+                    <AlertCircle className="w-4 h-4" />
+                    Tool name collisions
+                  </div>
+                  <ul className="list-disc pl-5">
+                    {Array.from(toolCollisions.entries()).map(([toolName, servers]) => (
+                      <li key={toolName}>
+                        <code>{toolName}</code> is provided by {servers.join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="mt-1">Tools are namespaced per server; set an alias to change the prefix.</p>
+                </div>
+              )}
               
               <div className="space-y-1 mb-6 max-h-[60vh] overflow-y-auto">
                 <DisclosureGroup>
@@ -387,20 +517,62 @@ export function ServerConfigSheet({
                     <Disclosure key={key}>
                       {editingServer === key ? (
                         <div className="space-y-2 p-4 border border-gray-200 dark:border-gray-700 rounded-lg mb-2">
+                          {isRemoteServerConfig(config) ? (
+                            <TextField
+                              label="URL"
+                              value={config.url}
+                              onChange={(val) => setServerConfigs({
+                                ...serverConfigs,
+                                [key]: { ...config, url: val }
+                              })}
+                            />
+                          ) : isInPageServerConfig(config) ? (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                              This server is defined in the page's code.
+                            </p>
+                          ) : (
+                            <>
+                              <TextField
+                                label="Command"
+                                value={config.command}
+                                onChange={(val) => setServerConfigs({
+                                  ...serverConfigs,
+                                  [key]: { ...config, command: val }
+                                })}
+                              />
+                              <TextField
+                                label="Arguments"
+                                value={config.args.join(' ')}
+                                onChange={(val) => setServerConfigs({
+                                  ...serverConfigs,
+                                  [key]: { ...config, args: val.split(' ').filter(arg => arg) }
+                                })}
+                              />
+                              {/* Groups are stored by name; their values are only decrypted at spawn time */}
+                              {(envGroupNames.length > 0 || !!config.envGroups?.length) && (
+                                <CheckboxGroup
+                                  label="Env groups"
+                                  description="Variables from these groups are added to the server's environment when it starts"
+                                  value={config.envGroups || []}
+                                  onChange={(groups) => setServerConfigs({
+                                    ...serverConfigs,
+                                    [key]: { ...config, envGroups: groups.length ? groups : undefined }
+                                  })}
+                                >
+                                  {Array.from(new Set([...envGroupNames, ...(config.envGroups || [])])).map(groupName => (
+                                    <Checkbox key={groupName} value={groupName}>{groupName}</Checkbox>
+                                  ))}
+                                </CheckboxGroup>
+                              )}
+                            </>
+                          )}
                           <TextField
-                            label="Command"
-                            value={config.command}
-                            onChange={(val) => setServerConfigs({
-                              ...serverConfigs,
-                              [key]: { ...config, command: val }
-                            })}
-                          />
-                          <TextField
-                            label="Arguments"
-                            value={config.args.join(' ')}
+                            label="Alias"
+                            description="Prefix used to namespace this server's tools"
+                            value={config.alias || ''}
                             onChange={(val) => setServerConfigs({
                               ...serverConfigs,
-                              [key]: { ...config, args: val.split(' ').filter(arg => arg) }
+                              [key]: { ...config, alias: val.trim() || undefined }
                             })}
                           />
                           <div className="flex justify-end gap-2 mt-2">
@@ -430,11 +602,21 @@ export function ServerConfigSheet({
                                   <span className="font-medium">{key}</span>
                                   <div className="flex items-center">
                                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                                      {`${config.command} ${config.args.join(' ')}`}
+                                      {describeServerConfig(config)}
                                     </p>
                                     <span className="text-xs ml-2 px-1.5 py-0.5 rounded-full bg-gray-200 dark:bg-gray-700">
                                       {getStatusText(key)}
                                     </span>
+                                    {!isRemoteServerConfig(config) && !isInPageServerConfig(config) && config.envGroups?.map(groupName => (
+                                      <span
+                                        key={groupName}
+                                        title="Env group"
+                                        className="text-xs ml-1 px-1.5 py-0.5 rounded-full bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200 flex items-center gap-1"
+                                      >
+                                        <Key className="w-3 h-3" />
+                                        {groupName}
+                                      </span>
+                                    ))}
                                   </div>
                                 </div>
                               </div>
@@ -502,6 +684,18 @@ export function ServerConfigSheet({
                                           {tool.description}
                                         </p>
                                       )}
+                                      {toolPolicy && (
+                                        <Select
+                                          label="Permission"
+                                          items={toolPermissionItems}
+                                          selectedKey={toolPermissionKey(key, tool)}
+                                          onSelectionChange={(permission) => permission && handleSetToolPermission(key, tool, String(permission))}
+                                          description={`Default for this tool: ${defaultToolPermission(tool)}`}
+                                          className="mb-2"
+                                        >
+                                          {(item) => <SelectItem id={item.id}>{item.label}</SelectItem>}
+                                        </Select>
+                                      )}
                                       {tool.inputSchema && (
                                         <div className="text-xs p-2 bg-gray-100 dark:bg-gray-800 rounded-md overflow-x-auto">
                                           <pre>{JSON.stringify(tool.inputSchema, null, 2)}</pre>
@@ -516,6 +710,19 @@ export function ServerConfigSheet({
                                 )}
                               </div>
                             )}
+                            {logStore && (
+                              <div className="py-2 px-4 space-y-2">
+                                <h4 className="text-sm font-medium">Logs for {key}:</h4>
+                                <ServerLogViewer
+                                  logStore={logStore}
+                                  serverName={key}
+                                  serverLogLevel={logLevels[key]}
+                                  onSetLogLevel={onSetLogLevel && activeServerStates[key]
+                                    ? (level) => handleSetLogLevel(key, level)
+                                    : undefined}
+                                />
+                              </div>
+                            )}
                           </DisclosurePanel>
                         </>
                       )}
@@ -524,6 +731,23 @@ export function ServerConfigSheet({
                 </DisclosureGroup>
               </div>
               
+              <Button
+                onPress={() => setShowCatalog(true)}
+                className="w-full py-3 mb-2"
+                variant="secondary"
+              >
+                <Server className="w-4 h-4 mr-2" />
+                Browse Server Catalog
+              </Button>
+              <ServerCatalogDialog
+                isOpen={showCatalog}
+                onOpenChange={setShowCatalog}
+                catalog={catalog ? mergeServerCatalogs(DEFAULT_SERVER_CATALOG, catalog) : DEFAULT_SERVER_CATALOG}
+                installedServers={Object.keys(serverConfigs)}
+                onAdd={(name, config) => handleAddAvailableServers({ [name]: config })}
+                onSaveSecrets={onSaveEnvGroup}
+              />
+
               {showAddServerForm ? (
                 <div className="border p-3 rounded-md mb-4 space-y-2">
                   <div className="flex justify-between items-center mb-2">
@@ -542,18 +766,41 @@ export function ServerConfigSheet({
                     onChange={setNewServerName}
                     description="custom-server"
                   />
-                  <TextField
-                    label="Command"
-                    value={newServerCommand}
-                    onChange={setNewServerCommand}
-                    description="npx"
-                  />
-                  <TextField
-                    label="Arguments"
-                    value={newServerArgs}
-                    onChange={setNewServerArgs}
-                    description="-y @modelcontextprotocol/server-custom"
-                  />
+                  <div className="flex flex-col gap-1">
+                    <label className="text-sm font-medium">Transport</label>
+                    <select
+                      value={newServerTransport}
+                      onChange={(e) => setNewServerTransport(e.target.value as 'stdio' | 'http' | 'sse')}
+                      className="px-3 py-2 border-2 rounded-md focus:border-blue-600 focus:outline-none"
+                    >
+                      <option value="stdio">stdio (spawn in WebContainer)</option>
+                      <option value="http">Streamable HTTP</option>
+                      <option value="sse">SSE</option>
+                    </select>
+                  </div>
+                  {newServerTransport === 'stdio' ? (
+                    <>
+                      <TextField
+                        label="Command"
+                        value={newServerCommand}
+                        onChange={setNewServerCommand}
+                        description="npx"
+                      />
+                      <TextField
+                        label="Arguments"
+                        value={newServerArgs}
+                        onChange={setNewServerArgs}
+                        description="-y @modelcontextprotocol/server-custom"
+                      />
+                    </>
+                  ) : (
+                    <TextField
+                      label="URL"
+                      value={newServerUrl}
+                      onChange={setNewServerUrl}
+                      description="http://localhost:3000/mcp"
+                    />
+                  )}
                   <Button
                     variant="primary"
                     onPress={handleAddServer}
@@ -573,6 +820,38 @@ export function ServerConfigSheet({
                   Add Custom Server
                 </Button>
               )}
+
+              <div className="flex gap-2 mb-2">
+                <Button variant="secondary" onPress={() => setShowImportDialog(true)} className="flex-1 text-xs">
+                  Import
+                </Button>
+                <Button variant="secondary" onPress={() => downloadServerConfigs(serverConfigs, 'claude-desktop')} className="flex-1 text-xs">
+                  Export for Claude Desktop
+                </Button>
+                <Button variant="secondary" onPress={() => downloadServerConfigs(serverConfigs, 'vscode')} className="flex-1 text-xs">
+                  Export for VS Code
+                </Button>
+              </div>
+              <ServerConfigImportDialog
+                isOpen={showImportDialog}
+                onOpenChange={setShowImportDialog}
+                onImport={handleAddAvailableServers}
+              />
+
+              {inspector && (
+                <div className="mt-2">
+                  <Button
+                    variant="secondary"
+                    onPress={() => setShowInspector(!showInspector)}
+                    className="w-full py-2 mb-2"
+                  >
+                    {showInspector ? 'Hide' : 'Show'} Protocol Inspector
+                  </Button>
+                  {showInspector && (
+                    <ProtocolInspectorPanel inspector={inspector} onReplay={onReplayRequest} />
+                  )}
+                </div>
+              )}
             </Dialog>
           </MotionModal>
         </MotionModalOverlay>
@@ -926,14 +1205,31 @@ function ErrorSheet({ error, isOpen, onOpenChange }: ErrorSheetProps) {
 
 // Main Chat component (now with server configuration and persistence option)
 export function Chat({ 
-  serverConfigs = DEFAULT_SERVER_CONFIGS, 
+  serverConfigs = DEFAULT_NPX_SERVER_CONFIGS, 
   enablePersistence = false,
-  sessionId = null
+  sessionId = null,
+  envGroupResolver,
+  envGroupNames,
+  serverCatalog,
+  workspaceId = DEFAULT_WORKSPACE_ID,
+  onSaveEnvGroup
 }: { 
   serverConfigs?: Record<string, ServerConfig>;
   enablePersistence?: boolean;
   sessionId?: string | null;
+  // Decrypts the env groups referenced by server configs when their processes spawn
+  envGroupResolver?: EnvGroupResolver;
+  // Groups offered in the server config sheet
+  envGroupNames?: string[];
+  // Extra entries for the server catalog
+  serverCatalog?: ServerCatalogEntry[];
+  // Tool permissions are saved per workspace
+  workspaceId?: string;
+  // Stores secrets entered in the server catalog in an encrypted env group
+  onSaveEnvGroup?: (groupName: string, variables: Record<string, string>) => Promise<void>;
 }) {
+  // Servers offered in the config sheet, including ones added from the catalog
+  const [availableServers, setAvailableServers] = useState<Record<string, ServerConfig>>(serverConfigs);
   const [activeServers, setActiveServers] = useState<Record<string, ServerConfig>>(serverConfigs);
   const [chatSessions, setChatSessions] = useState<{ id: string; name: string; created_at: string; updated_at: string }[]>([]);
   const [showChatList, setShowChatList] = useState<boolean>(false);
@@ -962,9 +1258,32 @@ export function Chat({
   const [error, setError] = useState<string | null>(null);
   const [showErrorSheet, setShowErrorSheet] = useState<boolean>(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Tool call currently waiting on a server, with its latest progress
+  const [runningToolCall, setRunningToolCall] = useState<{ name: string; progress?: Progress } | null>(null);
+  const toolCallAbortRef = useRef<AbortController | null>(null);
+  
+  // Cancel the running tool call when the chat goes away
+  useEffect(() => {
+    return () => toolCallAbortRef.current?.abort();
+  }, []);
   
   // Get MCP server status and tools using the real hook
-  const { status, tools: mcpTools, executeTool, toolToServerMap } = useMCPServer({ mcpServers: activeServers });
+  const {
+    status,
+    tools: mcpTools,
+    executeTool,
+    toolToServerMap,
+    toolCollisions,
+    serverStatuses,
+    logStore,
+    setServerLogLevel,
+    getServerLogLevel,
+    inspector,
+    replayRequest,
+    toolPolicy,
+    pendingToolApproval,
+    decideToolApproval
+  } = useMCPServer({ mcpServers: activeServers, envGroupResolver, workspaceId });
 
   // Keep track of tools with their server assignment
   const [tools, setTools] = useState<ToolDefinition[]>([]);
@@ -1485,9 +1804,15 @@ export function Chat({
         className="mt-2 bg-gray-100 dark:bg-gray-800 border-0 shadow-none"
         headerBgColor="bg-transparent"
       >
-        <pre className="text-xs overflow-x-auto p-2 bg-gray-200 rounded dark:bg-gray-700">
-          {typeof result === 'object' ? JSON.stringify(result, null, 2) : String(result)}
-        </pre>
+        {result && typeof result === 'object' && result.structuredContent ? (
+          <div className="overflow-x-auto p-2 bg-gray-200 rounded dark:bg-gray-700">
+            <StructuredContentView value={result.structuredContent} />
+          </div>
+        ) : (
+          <pre className="text-xs overflow-x-auto p-2 bg-gray-200 rounded dark:bg-gray-700">
+            {typeof result === 'object' ? JSON.stringify(result, null, 2) : String(result)}
+          </pre>
+        )}
       </ActionCard>
     );
   };
@@ -1713,8 +2038,19 @@ export function Chat({
         // Execute the tool if possible
         if (executeTool) {
           try {
-            debugger
-            const toolResult = await executeTool(toolCall.name, toolCall.input);
+            const abortController = new AbortController();
+            toolCallAbortRef.current = abortController;
+            setRunningToolCall({ name: toolCall.name });
+            let toolResult;
+            try {
+              toolResult = await executeTool(toolCall.name, toolCall.input, {
+                signal: abortController.signal,
+                onProgress: (progress) => setRunningToolCall({ name: toolCall.name, progress }),
+              });
+            } finally {
+              toolCallAbortRef.current = null;
+              setRunningToolCall(null);
+            }
             assistantMessage.toolResult = toolResult;
             
             // Send the tool result back to Anthropic
@@ -2026,7 +2362,7 @@ export function Chat({
       
       {/* Server Configuration Sheet with Tools */}
       <ServerConfigSheet 
-        availableServers={serverConfigs}
+        availableServers={availableServers}
         activeServers={activeServers}
         isOpen={showServerConfigSheet}
         onOpenChange={setShowServerConfigSheet}
@@ -2034,8 +2370,23 @@ export function Chat({
         serverStatus={status}
         tools={tools}
         serverToolMapping={serverToolMapping}
+        toolCollisions={toolCollisions}
+        serverStatuses={serverStatuses}
+        logStore={logStore}
+        onSetLogLevel={setServerLogLevel}
+        getLogLevel={getServerLogLevel}
+        inspector={inspector}
+        onReplayRequest={replayRequest}
+        envGroupNames={envGroupNames}
+        catalog={serverCatalog}
+        toolPolicy={toolPolicy}
+        onAddServers={(added) => setAvailableServers(current => ({ ...current, ...added }))}
+        onSaveEnvGroup={onSaveEnvGroup}
       />
       
+      {/* Confirms tool calls the tool permissions ask about */}
+      <ToolApprovalDialog request={pendingToolApproval} onDecide={decideToolApproval} />
+      
       {/* Error Sheet */}
       <ErrorSheet
         error={error}
@@ -2060,7 +2411,7 @@ export function Chat({
           <div className={`h-3 w-3 rounded-full ${
             apiKey ? 'bg-gray-500' :
             status === 'READY' ? 'bg-green-500' : 
-            status === 'STARTING' || status === 'INSTALLING_NODE_MODULES' ? 'bg-yellow-500 animate-pulse' : 
+            status === 'STARTING' || status === 'INSTALLING_NODE_MODULES' || status === 'RESTARTING' ? 'bg-yellow-500 animate-pulse' : 
             'bg-red-500'
           }`} />
           <span className="text-sm text-gray-600 dark:text-gray-400">
@@ -2068,6 +2419,7 @@ export function Chat({
              status === 'READY' ? `Server Ready (${Object.keys(activeServers).length} active)` : 
              status === 'STARTING' ? 'Starting Server' :
              status === 'INSTALLING_NODE_MODULES' ? 'Installing Modules' :
+             status === 'RESTARTING' ? 'Restarting Crashed Server' :
              'Server Error'}
           </span>
 
@@ -2255,7 +2607,15 @@ export function Chat({
             {isProcessing && (
               <div className="flex justify-start">
                 <div className="bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200 max-w-[80%] rounded-lg p-4">
-                  <LoadingIndicator message="Processing your request..." variant="spinner" />
+                  {runningToolCall ? (
+                    <ToolCallProgress
+                      toolName={runningToolCall.name}
+                      progress={runningToolCall.progress}
+                      onCancel={() => toolCallAbortRef.current?.abort()}
+                    />
+                  ) : (
+                    <LoadingIndicator message="Processing your request..." variant="spinner" />
+                  )}
                 </div>
               </div>
             )}
@@ -18,4 +18,5 @@ export * from './layout/ActionCard';
 // MCP components
 export * from './mcp/ToolsList';
 export * from './mcp/ResourcesList';
+export * from './mcp/ResourceTemplateForm';
 export * from './mcp/DynamicForm'; 
\ No newline at end of file
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ComboBox, ComboBoxItem } from '@/components/aria/ComboBox';
+
+/** Fetches suggestions for one argument given its partial value and the other filled-in arguments */
+export type CompletionProvider = (
+  argumentName: string,
+  value: string,
+  context: Record<string, string>
+) => Promise<string[]>;
+
+export interface CompletionFieldProps {
+  /** Argument the suggestions are for */
+  name: string;
+  /** Field label */
+  label?: string;
+  /** Optional help text under the field */
+  description?: string;
+  /** Current value */
+  value: string;
+  /** Handler for typing or picking a suggestion */
+  onChange: (value: string) => void;
+  /** Values of the other arguments, sent along as completion context */
+  context: Record<string, string>;
+  /** Source of suggestions, usually the MCP server's completion/complete */
+  getCompletions: CompletionProvider;
+  /** Whether the field must be filled in */
+  isRequired?: boolean;
+}
+
+// Wait for a pause in typing before asking the server
+export const COMPLETION_DEBOUNCE_MS = 250;
+
+/**
+ * A text field that suggests server-provided completions as the user types
+ */
+export function CompletionField({
+  name,
+  label,
+  description,
+  value,
+  onChange,
+  context,
+  getCompletions,
+  isRequired = false
+}: CompletionFieldProps) {
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  // Answers already fetched for this argument, keyed by context and typed value
+  const cacheRef = useRef(new Map<string, string[]>());
+  // Read the latest provider without restarting the debounce on every render
+  const getCompletionsRef = useRef(getCompletions);
+  getCompletionsRef.current = getCompletions;
+
+  const contextKey = JSON.stringify(context);
+
+  useEffect(() => {
+    const cacheKey = `${contextKey}\u0000${value}`;
+    const cached = cacheRef.current.get(cacheKey);
+    if (cached) {
+      setSuggestions(cached);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getCompletionsRef.current(name, value, JSON.parse(contextKey))
+        .then(values => {
+          cacheRef.current.set(cacheKey, values);
+          if (!cancelled) setSuggestions(values);
+        })
+        .catch(error => console.warn(`Error completing argument ${name}:`, error));
+    }, COMPLETION_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [name, value, contextKey]);
+
+  return (
+    <ComboBox
+      label={label}
+      description={description}
+      items={suggestions.map(suggestion => ({ id: suggestion }))}
+      inputValue={value}
+      onInputChange={onChange}
+      onSelectionChange={(key) => key !== null && onChange(String(key))}
+      allowsCustomValue
+      menuTrigger="input"
+      isRequired={isRequired}
+    >
+      {(item: { id: string }) => <ComboBoxItem id={item.id}>{item.id}</ComboBoxItem>}
+    </ComboBox>
+  );
+}
@@ -5,6 +5,7 @@ import { NumberField } from '@/components/aria/NumberField';
 import { DateField } from '@/components/aria/DateField';
 import { Checkbox } from '@/components/aria/Checkbox';
 import { Button } from '@/components/aria/Button';
+import { CompletionField, CompletionProvider } from './CompletionField';
 
 export interface Schema {
   properties?: Record<string, any>;
@@ -28,19 +29,25 @@ export interface DynamicFormProps {
   className?: string;
   /** Form description shown at the top */
   formDescription?: string;
+  /** Suggests values for string fields as the user types */
+  getCompletions?: CompletionProvider;
 }
 
+// Stable default so the reset effect below doesn't fire on every render
+const EMPTY_VALUES: Record<string, any> = {};
+
 /**
  * A reusable dynamic form component that generates form fields from a JSON schema
  */
 export function DynamicForm({
   schema,
-  initialValues = {},
+  initialValues = EMPTY_VALUES,
   onSubmit,
   submitButtonText = 'Submit',
   isSubmitting = false,
   className = '',
-  formDescription
+  formDescription,
+  getCompletions
 }: DynamicFormProps) {
   const [formState, setFormState] = useState<Record<string, any>>(initialValues);
   const [selectedSchemaVariant, setSelectedSchemaVariant] = useState<number>(0);
@@ -95,6 +102,15 @@ export function DynamicForm({
     }));
   };
 
+  // The other filled-in string fields, which servers may use to narrow completions
+  const getCompletionContext = (name: string) => {
+    const context: Record<string, string> = {};
+    Object.entries(formState).forEach(([key, value]) => {
+      if (key !== name && typeof value === 'string' && value) context[key] = value;
+    });
+    return context;
+  };
+
   // Render variant selection for oneOf/anyOf
   const renderVariantField = (name: string, property: any) => {
     const variants = property.oneOf || property.anyOf || [];
@@ -350,11 +366,27 @@ export function DynamicForm({
         );
       case 'string':
       default:
+        if (getCompletions && property.format !== 'password') {
+          return (
+            <CompletionField
+              key={name}
+              name={name}
+              label={`${name}${isRequired ? ' *' : ''}`}
+              description={description}
+              value={formState[name] || ''}
+              onChange={(value) => updateField(name, value)}
+              context={getCompletionContext(name)}
+              getCompletions={getCompletions}
+              isRequired={isRequired}
+            />
+          );
+        }
         return (
           <TextField
             key={name}
             label={`${name}${isRequired ? ' *' : ''}`}
             description={description}
+            type={property.format === 'password' ? 'password' : 'text'}
             value={formState[name] || ''}
             onChange={(value) => updateField(name, value)}
             isRequired={isRequired}
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { Heading } from 'react-aria-components';
+import type { ElicitRequestFormParams } from '@modelcontextprotocol/sdk/types.js';
+import { Modal } from '@/components/aria/Modal';
+import { Dialog } from '@/components/aria/Dialog';
+import { Button } from '@/components/aria/Button';
+import { DynamicForm } from './DynamicForm';
+
+export interface ElicitationRequest {
+  /** Server that asked for input */
+  serverName: string;
+  /** Parameters of the elicitation/create request */
+  params: ElicitRequestFormParams;
+}
+
+export interface ElicitationDialogProps {
+  /** Request awaiting an answer, or null when nothing is pending */
+  request: ElicitationRequest | null;
+  /** Handler for submitting the form */
+  onAccept: (content: Record<string, any>) => void;
+  /** Handler for explicitly refusing to answer */
+  onDecline: () => void;
+  /** Handler for dismissing the dialog without a decision */
+  onCancel: () => void;
+}
+
+/**
+ * Renders a server's elicitation schema as a form in a modal
+ */
+export function ElicitationDialog({ request, onAccept, onDecline, onCancel }: ElicitationDialogProps) {
+  const schema = request?.params.requestedSchema;
+
+  // Start from the defaults the server suggested
+  const initialValues = useMemo(() => {
+    const values: Record<string, any> = {};
+    Object.entries(schema?.properties ?? {}).forEach(([name, property]: [string, any]) => {
+      if (property.default !== undefined) values[name] = property.default;
+    });
+    return values;
+  }, [schema]);
+
+  return (
+    <Modal isOpen={!!request} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <Dialog>
+        <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+          {request?.serverName} needs more information
+        </Heading>
+
+        {schema && (
+          <DynamicForm
+            schema={schema}
+            initialValues={initialValues}
+            onSubmit={onAccept}
+            submitButtonText="Accept"
+            formDescription={request?.params.message}
+            className="mt-4"
+          />
+        )}
+
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="secondary" onPress={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onPress={onDecline}>
+            Decline
+          </Button>
+        </div>
+      </Dialog>
+    </Modal>
+  );
+}
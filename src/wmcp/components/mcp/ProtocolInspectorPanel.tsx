@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { Select, SelectItem } from '@/components/aria/Select';
+import { SearchField } from '@/components/aria/SearchField';
+import { Button } from '@/components/aria/Button';
+import type { JSONRPCRequest, Request } from '@modelcontextprotocol/sdk/types.js';
+import type { ProtocolInspector, TrafficEntry, TrafficKind } from '../../lib/ProtocolInspector';
+import { useProtocolTraffic } from '../../hooks/useProtocolTraffic';
+
+export interface ProtocolInspectorPanelProps {
+  /** Inspector the manager records traffic into */
+  inspector: ProtocolInspector;
+  /** Handler for sending a recorded request again; replay is hidden when omitted */
+  onReplay?: (serverName: string, request: Request) => Promise<unknown>;
+  /** Max height for the message list */
+  maxHeight?: string;
+}
+
+const ALL = 'all';
+const KIND_ITEMS: Array<{ id: TrafficKind | typeof ALL }> = [
+  { id: ALL }, { id: 'request' }, { id: 'response' }, { id: 'error' }, { id: 'notification' }
+];
+
+const KIND_COLORS: Record<TrafficKind, string> = {
+  request: 'text-blue-600 dark:text-blue-400',
+  response: 'text-green-600 dark:text-green-400',
+  error: 'text-red-600 dark:text-red-400',
+  notification: 'text-purple-600 dark:text-purple-400'
+};
+
+// Save the recorded session through a temporary download link
+function downloadSession(inspector: ProtocolInspector, serverName?: string) {
+  const blob = new Blob([inspector.exportSession(serverName)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `mcp-session-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Recorded JSON-RPC traffic with filtering, expandable payloads, replay and export
+ */
+export function ProtocolInspectorPanel({ inspector, onReplay, maxHeight = '320px' }: ProtocolInspectorPanelProps) {
+  const { entries, clear } = useProtocolTraffic(inspector);
+  const [serverFilter, setServerFilter] = useState<string>(ALL);
+  const [kindFilter, setKindFilter] = useState<string>(ALL);
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [replayResults, setReplayResults] = useState<Record<number, string>>({});
+
+  const serverItems = useMemo(
+    () => [ALL, ...Array.from(new Set(entries.map(entry => entry.serverName)))].map(id => ({ id })),
+    [entries]
+  );
+
+  const visibleEntries = useMemo(() => {
+    const query = search.toLowerCase();
+    return entries.filter(entry =>
+      (serverFilter === ALL || entry.serverName === serverFilter) &&
+      (kindFilter === ALL || entry.kind === kindFilter) &&
+      (!query || entry.method?.toLowerCase().includes(query))
+    );
+  }, [entries, serverFilter, kindFilter, search]);
+
+  const handleReplay = async (entry: TrafficEntry) => {
+    const { method, params } = entry.message as JSONRPCRequest;
+    try {
+      const result = await onReplay!(entry.serverName, { method, params });
+      setReplayResults(prev => ({ ...prev, [entry.id]: JSON.stringify(result, null, 2) }));
+    } catch (error) {
+      setReplayResults(prev => ({ ...prev, [entry.id]: `Error: ${(error as Error).message}` }));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-end gap-2">
+        <Select
+          label="Server"
+          items={serverItems}
+          selectedKey={serverFilter}
+          onSelectionChange={(key) => setServerFilter(String(key))}
+        >
+          {(item) => <SelectItem id={item.id}>{item.id}</SelectItem>}
+        </Select>
+        <Select
+          label="Type"
+          items={KIND_ITEMS}
+          selectedKey={kindFilter}
+          onSelectionChange={(key) => setKindFilter(String(key))}
+        >
+          {(item) => <SelectItem id={item.id}>{item.id}</SelectItem>}
+        </Select>
+        <SearchField aria-label="Filter by method" value={search} onChange={setSearch} className="flex-1" />
+        <Button
+          variant="secondary"
+          onPress={() => downloadSession(inspector, serverFilter === ALL ? undefined : serverFilter)}
+          className="text-xs"
+        >
+          Export
+        </Button>
+        <Button variant="secondary" onPress={clear} className="text-xs">
+          Clear
+        </Button>
+      </div>
+      <div className="overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700 font-mono text-xs" style={{ maxHeight }}>
+        {visibleEntries.length === 0 ? (
+          <div className="p-2 text-gray-500 italic">No messages recorded.</div>
+        ) : (
+          visibleEntries.map(entry => (
+            <div key={entry.id} className="border-b border-gray-200 dark:border-gray-700 last:border-b-0">
+              <div
+                className="flex items-center gap-2 px-2 py-1 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
+                onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+              >
+                <span className="text-gray-500">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                <span title={entry.direction}>{entry.direction === 'outgoing' ? '→' : '←'}</span>
+                <span className="text-gray-500">{entry.serverName}</span>
+                <span className={KIND_COLORS[entry.kind]}>{entry.kind}</span>
+                <span className="flex-1 truncate">{entry.method}</span>
+                {entry.messageId !== undefined && <span className="text-gray-500">#{entry.messageId}</span>}
+                {entry.latencyMs !== undefined && <span className="text-gray-500">{entry.latencyMs}ms</span>}
+              </div>
+              {expandedId === entry.id && (
+                <div className="px-2 pb-2 space-y-2">
+                  <pre className="p-2 rounded bg-gray-100 dark:bg-gray-900 overflow-x-auto">
+                    {JSON.stringify(entry.message, null, 2)}
+                  </pre>
+                  {onReplay && entry.kind === 'request' && entry.direction === 'outgoing' && (
+                    <Button variant="secondary" onPress={() => handleReplay(entry)} className="text-xs">
+                      Replay
+                    </Button>
+                  )}
+                  {replayResults[entry.id] && (
+                    <pre className="p-2 rounded bg-gray-100 dark:bg-gray-900 overflow-x-auto">{replayResults[entry.id]}</pre>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import React, { useCallback, useMemo } from 'react';
+import type { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { ArgumentCompleter, expandResourceTemplate, getTemplateVariables } from '../../lib/McpClientManager';
+import { DynamicForm, Schema } from './DynamicForm';
+
+export interface ResourceTemplateFormProps {
+  /** Template whose variables the form asks for */
+  template: ResourceTemplate;
+  /** Handler receiving the expanded resource URI */
+  onExpand: (uri: string, template: ResourceTemplate) => void;
+  /** Server completions for the template variables */
+  completeArgument?: ArgumentCompleter;
+  /** Optional button text */
+  submitButtonText?: string;
+  /** Optional additional CSS class names */
+  className?: string;
+}
+
+/**
+ * Asks for the variables of a resource template and expands it into a URI
+ */
+export function ResourceTemplateForm({
+  template,
+  onExpand,
+  completeArgument,
+  submitButtonText = 'Open',
+  className = ''
+}: ResourceTemplateFormProps) {
+  // Every template variable becomes a required text field
+  const schema = useMemo<Schema>(() => {
+    const variables = getTemplateVariables(template.uriTemplate);
+    return {
+      properties: Object.fromEntries(variables.map(name => [name, { type: 'string', title: name }])),
+      required: variables,
+    };
+  }, [template.uriTemplate]);
+
+  const getCompletions = useCallback(
+    (name: string, value: string, context: Record<string, string>) =>
+      completeArgument!({ type: 'ref/resource', uri: template.uriTemplate }, name, value, context),
+    [completeArgument, template.uriTemplate]
+  );
+
+  const handleSubmit = (values: Record<string, any>) => {
+    const variables = Object.fromEntries(
+      Object.entries(values).map(([name, value]) => [name, String(value ?? '')])
+    );
+    onExpand(expandResourceTemplate(template.uriTemplate, variables), template);
+  };
+
+  return (
+    <DynamicForm
+      schema={schema}
+      onSubmit={handleSubmit}
+      getCompletions={completeArgument ? getCompletions : undefined}
+      submitButtonText={submitButtonText}
+      formDescription={template.description ?? template.uriTemplate}
+      className={className}
+    />
+  );
+}
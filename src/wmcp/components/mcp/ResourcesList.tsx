@@ -1,4 +1,7 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import type { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import type { ArgumentCompleter } from '../../lib/McpClientManager';
+import { ResourceTemplateForm } from './ResourceTemplateForm';
 
 export interface Resource {
   name: string;
@@ -10,6 +13,10 @@ export interface Resource {
 export interface ResourcesListProps {
   /** Array of resources to display */
   resources: Resource[];
+  /** Parameterized resources, expanded through a generated form */
+  resourceTemplates?: ResourceTemplate[];
+  /** Server completions for template variables */
+  completeArgument?: ArgumentCompleter;
   /** Handler for resource selection */
   onSelectResource?: (resource: Resource) => void;
   /** Currently selected resource */
@@ -24,6 +31,8 @@ export interface ResourcesListProps {
   className?: string;
   /** Max height for the list container */
   maxHeight?: string;
+  /** Number of resources rendered at a time; more load as the list is scrolled */
+  pageSize?: number;
 }
 
 /**
@@ -31,27 +40,79 @@ export interface ResourcesListProps {
  */
 export function ResourcesList({
   resources,
+  resourceTemplates = [],
+  completeArgument,
   onSelectResource,
   selectedResource,
   isLoading = false,
   loadingMessage = 'Loading resources...',
   emptyMessage = 'No resources available',
   className = '',
-  maxHeight = '60vh'
+  maxHeight = '60vh',
+  pageSize = 100
 }: ResourcesListProps) {
+  const [openTemplate, setOpenTemplate] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(pageSize);
+
+  // Start from the first page again when the list is replaced
+  useEffect(() => {
+    setVisibleCount(pageSize);
+  }, [resources, pageSize]);
+
+  const hasMore = visibleCount < resources.length;
+  const showMore = () => setVisibleCount(count => count + pageSize);
+
+  // Render the next page once the user scrolls near the bottom
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, clientHeight, scrollHeight } = e.currentTarget;
+    if (hasMore && scrollTop + clientHeight >= scrollHeight - 40) {
+      showMore();
+    }
+  };
+
+  // An expanded template is selected like any other resource
+  const handleExpand = (uri: string, template: ResourceTemplate) => {
+    setOpenTemplate(null);
+    onSelectResource?.({
+      name: template.name,
+      uri,
+      description: template.description,
+      mimeType: template.mimeType
+    });
+  };
+
   return (
     <div className={`border rounded-md overflow-hidden ${className}`}>
       <div className="bg-gray-100 dark:bg-zinc-800 text-gray-800 dark:text-gray-200 px-4 py-2 font-medium border-b">
         Available Resources
       </div>
-      <div className={`p-2 overflow-y-auto`} style={{ maxHeight }}>
+      <div className={`p-2 overflow-y-auto`} style={{ maxHeight }} onScroll={handleScroll}>
         {isLoading ? (
           <div className="p-3 text-gray-500 dark:text-gray-400">{loadingMessage}</div>
-        ) : resources.length === 0 ? (
+        ) : resources.length === 0 && resourceTemplates.length === 0 ? (
           <div className="p-3 text-gray-500 dark:text-gray-400">{emptyMessage}</div>
         ) : (
           <ul className="divide-y">
-            {resources.map(resource => (
+            {resourceTemplates.map(template => (
+              <li key={template.uriTemplate} className="p-2">
+                <div
+                  className="cursor-pointer hover:bg-gray-100 dark:hover:bg-zinc-700"
+                  onClick={() => setOpenTemplate(openTemplate === template.uriTemplate ? null : template.uriTemplate)}
+                >
+                  <div className="font-medium text-gray-800 dark:text-gray-200">{template.name}</div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400 truncate">{template.uriTemplate}</div>
+                </div>
+                {openTemplate === template.uriTemplate && (
+                  <ResourceTemplateForm
+                    template={template}
+                    onExpand={handleExpand}
+                    completeArgument={completeArgument}
+                    className="mt-2"
+                  />
+                )}
+              </li>
+            ))}
+            {resources.slice(0, visibleCount).map(resource => (
               <li 
                 key={resource.uri}
                 className={`p-2 ${onSelectResource ? 'cursor-pointer hover:bg-gray-100 dark:hover:bg-zinc-700' : ''} ${
@@ -66,6 +127,17 @@ export function ResourcesList({
                 )}
               </li>
             ))}
+            {hasMore && (
+              <li className="p-2 text-center">
+                <button
+                  type="button"
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  onClick={showMore}
+                >
+                  Show more ({resources.length - visibleCount} remaining)
+                </button>
+              </li>
+            )}
           </ul>
         )}
       </div>
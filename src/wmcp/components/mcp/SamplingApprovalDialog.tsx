@@ -0,0 +1,111 @@
+import React from 'react';
+import { Heading } from 'react-aria-components';
+import type { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Modal } from '@/components/aria/Modal';
+import { Dialog } from '@/components/aria/Dialog';
+import { Button } from '@/components/aria/Button';
+
+export interface SamplingRequest {
+  /** Server that asked for the completion */
+  serverName: string;
+  /** Parameters of the sampling/createMessage request */
+  params: CreateMessageRequest['params'];
+}
+
+export interface SamplingApprovalDialogProps {
+  /** Request awaiting a decision, or null when nothing is pending */
+  request: SamplingRequest | null;
+  /** Handler for sending the request to the LLM */
+  onApprove: () => void;
+  /** Handler for declining the request */
+  onReject: () => void;
+}
+
+// Render one content block of a sampling message as text
+function describeContent(content: any): string {
+  if (content?.type === 'text') return content.text;
+  return `[${content?.type ?? 'unknown'} content]`;
+}
+
+/**
+ * Shows what an MCP server wants to send to the LLM and asks the user to approve it
+ */
+export function SamplingApprovalDialog({ request, onApprove, onReject }: SamplingApprovalDialogProps) {
+  const params = request?.params;
+  const preferences = params?.modelPreferences;
+
+  return (
+    <Modal isOpen={!!request} onOpenChange={(isOpen) => !isOpen && onReject()}>
+      <Dialog>
+        <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+          Sampling request from {request?.serverName}
+        </Heading>
+        <p className="mt-2 text-sm text-slate-500 dark:text-zinc-400">
+          This server wants to send the following messages to the LLM.
+        </p>
+
+        {params?.systemPrompt && (
+          <div className="mt-4">
+            <div className="text-sm font-medium">System prompt</div>
+            <pre className="mt-1 p-2 text-xs whitespace-pre-wrap rounded bg-gray-100 dark:bg-zinc-900">{params.systemPrompt}</pre>
+          </div>
+        )}
+
+        <div className="mt-4 space-y-2 max-h-64 overflow-y-auto">
+          {params?.messages.map((message, index) => (
+            <div key={index} className="p-2 rounded border border-gray-200 dark:border-zinc-700">
+              <div className="text-xs font-medium uppercase text-gray-500">{message.role}</div>
+              <div className="text-sm whitespace-pre-wrap">
+                {(Array.isArray(message.content) ? message.content : [message.content]).map(describeContent).join('\n')}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <dl className="mt-4 grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          <dt className="text-gray-500">Max tokens</dt>
+          <dd>{params?.maxTokens}</dd>
+          {params?.temperature !== undefined && (
+            <>
+              <dt className="text-gray-500">Temperature</dt>
+              <dd>{params.temperature}</dd>
+            </>
+          )}
+          {preferences?.hints && preferences.hints.length > 0 && (
+            <>
+              <dt className="text-gray-500">Model hints</dt>
+              <dd>{preferences.hints.map(hint => hint.name).filter(Boolean).join(', ')}</dd>
+            </>
+          )}
+          {preferences?.intelligencePriority !== undefined && (
+            <>
+              <dt className="text-gray-500">Intelligence priority</dt>
+              <dd>{preferences.intelligencePriority}</dd>
+            </>
+          )}
+          {preferences?.speedPriority !== undefined && (
+            <>
+              <dt className="text-gray-500">Speed priority</dt>
+              <dd>{preferences.speedPriority}</dd>
+            </>
+          )}
+          {preferences?.costPriority !== undefined && (
+            <>
+              <dt className="text-gray-500">Cost priority</dt>
+              <dd>{preferences.costPriority}</dd>
+            </>
+          )}
+        </dl>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <Button variant="secondary" onPress={onReject}>
+            Decline
+          </Button>
+          <Button variant="primary" autoFocus onPress={onApprove}>
+            Send to LLM
+          </Button>
+        </div>
+      </Dialog>
+    </Modal>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Heading } from 'react-aria-components';
+import { ArrowLeft, Check, ExternalLink } from 'lucide-react';
+import { Modal } from '@/components/aria/Modal';
+import { Dialog } from '@/components/aria/Dialog';
+import { Button } from '@/components/aria/Button';
+import { SearchField } from '@/components/aria/SearchField';
+import type { ServerConfig } from '../../lib/McpClientManager';
+import { ServerConfigFieldError, ServerConfigImportError } from '../../lib/serverConfigFile';
+import {
+  ServerCatalogEntry,
+  createServerFromCatalog,
+  serverCatalogDefaults,
+  serverCatalogFormSchema,
+  serverCatalogSecretEnv,
+  serverCatalogSecretGroupName
+} from '../../lib/serverCatalog';
+import { DynamicForm } from './DynamicForm';
+
+export interface ServerCatalogDialogProps {
+  /** Whether the dialog is shown */
+  isOpen: boolean;
+  /** Handler for opening or closing the dialog */
+  onOpenChange: (isOpen: boolean) => void;
+  /** Entries to offer, usually DEFAULT_SERVER_CATALOG merged with the host app's own */
+  catalog: ServerCatalogEntry[];
+  /** Names of servers that already exist; their entries are shown as added */
+  installedServers?: string[];
+  /** Receives the configured server under the entry's id */
+  onAdd: (name: string, config: ServerConfig) => void;
+  /** Stores secret env values in an encrypted env group; servers that need secrets can't be added without it */
+  onSaveSecrets?: (groupName: string, variables: Record<string, string>) => Promise<void>;
+}
+
+function matchesQuery(entry: ServerCatalogEntry, query: string) {
+  const needle = query.trim().toLowerCase();
+  return !needle || [entry.id, entry.name, entry.description].some(text => text.toLowerCase().includes(needle));
+}
+
+function FieldErrorList({ errors }: { errors: ServerConfigFieldError[] }) {
+  if (errors.length === 0) {
+    return null;
+  }
+  return (
+    <ul className="mt-3 text-sm text-red-600 dark:text-red-400 list-disc pl-5">
+      {errors.map((error, index) => (
+        <li key={index}>
+          {error.path && <code>{error.path}</code>} {error.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Browse known MCP servers and add them, asking for their required args and env values first
+ */
+export function ServerCatalogDialog({ isOpen, onOpenChange, catalog, installedServers = [], onAdd, onSaveSecrets }: ServerCatalogDialogProps) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<ServerCatalogEntry | null>(null);
+  const [errors, setErrors] = useState<ServerConfigFieldError[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setSelected(null);
+      setErrors([]);
+    }
+  }, [isOpen]);
+
+  const entries = useMemo(() => catalog.filter(entry => matchesQuery(entry, query)), [catalog, query]);
+  const formSchema = useMemo(() => selected ? serverCatalogFormSchema(selected) : null, [selected]);
+  const initialValues = useMemo(() => selected ? serverCatalogDefaults(selected) : undefined, [selected]);
+
+  const handleAdd = async (entry: ServerCatalogEntry, values: Record<string, string> = {}) => {
+    try {
+      // Secret env values go into an env group so the config never holds them
+      const secretEnv = serverCatalogSecretEnv(entry, values);
+      let secretEnvGroup: string | undefined;
+      if (Object.keys(secretEnv).length > 0) {
+        if (!onSaveSecrets) {
+          setErrors([{ path: '', message: 'Log in to store this server\'s secrets in an encrypted env group' }]);
+          return;
+        }
+        secretEnvGroup = serverCatalogSecretGroupName(entry);
+        await onSaveSecrets(secretEnvGroup, secretEnv);
+      }
+
+      onAdd(entry.id, createServerFromCatalog(entry, values, { secretEnvGroup }));
+      setSelected(null);
+      setErrors([]);
+    } catch (error) {
+      if (error instanceof ServerConfigImportError) {
+        setErrors(error.errors);
+      } else {
+        setErrors([{ path: '', message: error instanceof Error ? error.message : String(error) }]);
+      }
+    }
+  };
+
+  const selectEntry = (entry: ServerCatalogEntry) => {
+    setErrors([]);
+    // Entries without fields need no setup
+    if (entry.fields.length === 0) {
+      handleAdd(entry);
+    } else {
+      setSelected(entry);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onOpenChange={onOpenChange}>
+      <Dialog>
+        {selected && formSchema ? (
+          <>
+            <div className="flex items-center gap-2">
+              <Button variant="icon" aria-label="Back to catalog" onPress={() => setSelected(null)}>
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+              <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+                Set up {selected.name}
+              </Heading>
+            </div>
+            <FieldErrorList errors={errors} />
+            <DynamicForm
+              schema={formSchema}
+              initialValues={initialValues}
+              onSubmit={(values) => handleAdd(selected, values)}
+              formDescription={selected.description}
+              submitButtonText="Add server"
+              className="mt-4"
+            />
+          </>
+        ) : (
+          <>
+            <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+              Server catalog
+            </Heading>
+            <SearchField aria-label="Search servers" value={query} onChange={setQuery} className="mt-4" />
+            <FieldErrorList errors={errors} />
+            <ul className="mt-4 space-y-2 max-h-96 overflow-y-auto">
+              {entries.map(entry => {
+                const isInstalled = installedServers.includes(entry.id);
+                return (
+                  <li key={entry.id} className="flex items-start gap-3 border rounded-md p-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-1 text-sm font-medium">
+                        {entry.name}
+                        {entry.homepage && (
+                          <a href={entry.homepage} target="_blank" rel="noreferrer" aria-label={`${entry.name} homepage`} className="text-gray-500 hover:text-blue-600">
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">{entry.description}</p>
+                      {entry.fields.length > 0 && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          Needs {entry.fields.filter(field => !field.optional).map(field => field.name).join(', ') || 'optional settings'}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      variant={isInstalled ? 'secondary' : 'primary'}
+                      onPress={() => selectEntry(entry)}
+                      isDisabled={isInstalled}
+                      className="text-xs shrink-0"
+                    >
+                      {isInstalled ? <><Check className="w-3 h-3 mr-1" />Added</> : entry.fields.length > 0 ? 'Set up' : 'Add'}
+                    </Button>
+                  </li>
+                );
+              })}
+              {entries.length === 0 && (
+                <li className="text-sm text-gray-500 italic">No servers match "{query}"</li>
+              )}
+            </ul>
+          </>
+        )}
+
+        <div className="mt-4 flex justify-end">
+          <Button variant="secondary" onPress={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </div>
+      </Dialog>
+    </Modal>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Heading } from 'react-aria-components';
+import { Modal } from '@/components/aria/Modal';
+import { Dialog } from '@/components/aria/Dialog';
+import { Button } from '@/components/aria/Button';
+import { TextField } from '@/components/aria/TextField';
+import type { ServerConfig } from '../../lib/McpClientManager';
+import {
+  ServerConfigFieldError,
+  ServerConfigFileFormat,
+  ServerConfigImportError,
+  applyServerConfigVariables,
+  exportServerConfigs,
+  parseServerConfigFile
+} from '../../lib/serverConfigFile';
+
+export interface ServerConfigImportDialogProps {
+  /** Whether the dialog is shown */
+  isOpen: boolean;
+  /** Handler for opening or closing the dialog */
+  onOpenChange: (isOpen: boolean) => void;
+  /** Receives the imported servers with their placeholders filled in */
+  onImport: (servers: Record<string, ServerConfig>) => void;
+}
+
+const FILE_NAMES: Record<ServerConfigFileFormat, string> = {
+  'claude-desktop': 'claude_desktop_config.json',
+  vscode: 'mcp.json'
+};
+
+// Save servers in the given format through a temporary download link
+export function downloadServerConfigs(servers: Record<string, ServerConfig>, format: ServerConfigFileFormat) {
+  const blob = new Blob([exportServerConfigs(servers, format)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = FILE_NAMES[format];
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Paste or load a claude_desktop_config.json or .vscode/mcp.json file, fill in its
+ * placeholders and import the servers it defines
+ */
+export function ServerConfigImportDialog({ isOpen, onOpenChange, onImport }: ServerConfigImportDialogProps) {
+  const [text, setText] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [variableErrors, setVariableErrors] = useState<ServerConfigFieldError[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setText('');
+      setValues({});
+      setVariableErrors([]);
+    }
+  }, [isOpen]);
+
+  const parsed = useMemo(() => text.trim() ? parseServerConfigFile(text) : null, [text]);
+  const serverCount = parsed ? Object.keys(parsed.servers).length : 0;
+  const errors = [...(parsed?.errors ?? []), ...variableErrors];
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setText(await file.text());
+      setVariableErrors([]);
+    }
+  };
+
+  const handleImport = () => {
+    if (!parsed) return;
+    try {
+      onImport(applyServerConfigVariables(parsed.servers, values));
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof ServerConfigImportError) {
+        setVariableErrors(error.errors);
+      } else {
+        throw error;
+      }
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onOpenChange={onOpenChange}>
+      <Dialog>
+        <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+          Import MCP servers
+        </Heading>
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+          Paste a <code>claude_desktop_config.json</code> or <code>.vscode/mcp.json</code> file, or load one from disk.
+        </p>
+
+        <div className="mt-4 space-y-3">
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="text-sm" />
+          <textarea
+            aria-label="Config file"
+            value={text}
+            onChange={(event) => {
+              setText(event.target.value);
+              setVariableErrors([]);
+            }}
+            rows={10}
+            placeholder='{ "mcpServers": { ... } }'
+            className="w-full p-2 font-mono text-xs rounded-md border-2 border-gray-300 dark:border-zinc-600 bg-white dark:bg-zinc-900"
+          />
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 dark:text-red-400 list-disc pl-5">
+              {errors.map((error, index) => (
+                <li key={index}>
+                  {error.path && <code>{error.path}</code>} {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {parsed && parsed.variables.map(variable => (
+            <TextField
+              key={variable.name}
+              label={`\${${variable.name}}`}
+              description={variable.description}
+              type={variable.password ? 'password' : 'text'}
+              value={values[variable.name] ?? ''}
+              onChange={(value) => setValues(prev => ({ ...prev, [variable.name]: value }))}
+            />
+          ))}
+        </div>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="secondary" onPress={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="primary" onPress={handleImport} isDisabled={serverCount === 0}>
+            Import {serverCount > 0 ? `${serverCount} server${serverCount === 1 ? '' : 's'}` : ''}
+          </Button>
+        </div>
+      </Dialog>
+    </Modal>
+  );
+}
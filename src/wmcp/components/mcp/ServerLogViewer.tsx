@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { Select, SelectItem } from '@/components/aria/Select';
+import { SearchField } from '@/components/aria/SearchField';
+import { Button } from '@/components/aria/Button';
+import { LOG_LEVELS, ServerLogStore, isAtLeastLevel } from '../../lib/ServerLogStore';
+import { useServerLogs } from '../../hooks/useServerLogs';
+
+export interface ServerLogViewerProps {
+  /** Store the manager captures logs into */
+  logStore: ServerLogStore;
+  /** Server whose logs to show */
+  serverName: string;
+  /** Level the server currently sends, if one was chosen */
+  serverLogLevel?: LoggingLevel;
+  /** Handler for logging/setLevel; the control is hidden when omitted */
+  onSetLogLevel?: (level: LoggingLevel) => void;
+  /** Max height for the log list */
+  maxHeight?: string;
+}
+
+const LEVEL_COLORS: Partial<Record<LoggingLevel, string>> = {
+  debug: 'text-gray-400',
+  notice: 'text-blue-500',
+  warning: 'text-yellow-600 dark:text-yellow-400',
+  error: 'text-red-600 dark:text-red-400',
+  critical: 'text-red-700 dark:text-red-300 font-semibold',
+  alert: 'text-red-700 dark:text-red-300 font-semibold',
+  emergency: 'text-red-700 dark:text-red-300 font-semibold'
+};
+
+const levelItems = LOG_LEVELS.map(level => ({ id: level }));
+
+/**
+ * Captured stderr and MCP log messages for one server, with level filtering and search
+ */
+export function ServerLogViewer({
+  logStore,
+  serverName,
+  serverLogLevel,
+  onSetLogLevel,
+  maxHeight = '240px'
+}: ServerLogViewerProps) {
+  const { logs, clear } = useServerLogs(logStore, serverName);
+  const [minimumLevel, setMinimumLevel] = useState<LoggingLevel>('debug');
+  const [search, setSearch] = useState('');
+
+  const visibleLogs = useMemo(() => {
+    const query = search.toLowerCase();
+    return logs.filter(entry =>
+      isAtLeastLevel(entry.level, minimumLevel) &&
+      (!query || entry.message.toLowerCase().includes(query) || entry.logger?.toLowerCase().includes(query))
+    );
+  }, [logs, minimumLevel, search]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-end gap-2">
+        <Select
+          label="Show"
+          items={levelItems}
+          selectedKey={minimumLevel}
+          onSelectionChange={(key) => setMinimumLevel(key as LoggingLevel)}
+        >
+          {(item) => <SelectItem id={item.id}>{item.id}</SelectItem>}
+        </Select>
+        {onSetLogLevel && (
+          <Select
+            label="Server level"
+            placeholder="Default"
+            items={levelItems}
+            selectedKey={serverLogLevel ?? null}
+            onSelectionChange={(key) => key && onSetLogLevel(key as LoggingLevel)}
+          >
+            {(item) => <SelectItem id={item.id}>{item.id}</SelectItem>}
+          </Select>
+        )}
+        <SearchField aria-label="Search logs" value={search} onChange={setSearch} className="flex-1" />
+        <Button variant="secondary" onPress={clear} className="text-xs">
+          Clear
+        </Button>
+      </div>
+      <div className="overflow-y-auto rounded-md bg-gray-100 dark:bg-gray-900 p-2 font-mono text-xs" style={{ maxHeight }}>
+        {visibleLogs.length === 0 ? (
+          <div className="text-gray-500 italic">No log messages.</div>
+        ) : (
+          visibleLogs.map(entry => (
+            <div key={entry.id} className="whitespace-pre-wrap break-all">
+              <span className="text-gray-500">{new Date(entry.timestamp).toLocaleTimeString()}</span>{' '}
+              <span className={LEVEL_COLORS[entry.level] ?? ''}>{entry.level}</span>{' '}
+              {entry.logger && <span className="text-gray-500">[{entry.logger}] </span>}
+              {entry.message}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
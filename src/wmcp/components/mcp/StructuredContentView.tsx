@@ -0,0 +1,88 @@
+import React from 'react';
+
+export interface StructuredContentViewProps {
+  /** A tool result's structuredContent, or any nested value inside it */
+  value: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Arrays of objects that share their keys read best as a table
+function tableColumns(rows: unknown[]): string[] | null {
+  if (rows.length === 0 || !rows.every(isPlainObject)) {
+    return null;
+  }
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row as Record<string, unknown>))));
+  return columns.length <= 8 ? columns : null;
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Renders a tool's structured output as nested key/value lists and tables
+ */
+export function StructuredContentView({ value }: StructuredContentViewProps) {
+  if (Array.isArray(value)) {
+    const columns = tableColumns(value);
+    if (columns) {
+      return (
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr>
+              {columns.map(column => (
+                <th key={column} className="px-2 py-1 text-left font-medium border-b border-gray-300 dark:border-gray-600">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {value.map((row, index) => (
+              <tr key={index} className="align-top">
+                {columns.map(column => (
+                  <td key={column} className="px-2 py-1 border-b border-gray-200 dark:border-gray-700">
+                    <StructuredContentView value={(row as Record<string, unknown>)[column]} />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+
+    return (
+      <ol className="list-decimal pl-5 space-y-1">
+        {value.map((item, index) => (
+          <li key={index}>
+            <StructuredContentView value={item} />
+          </li>
+        ))}
+      </ol>
+    );
+  }
+
+  if (isPlainObject(value)) {
+    return (
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        {Object.entries(value).map(([key, entry]) => (
+          <React.Fragment key={key}>
+            <dt className="font-medium text-gray-600 dark:text-gray-300">{key}</dt>
+            <dd className="break-all">
+              <StructuredContentView value={entry} />
+            </dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    );
+  }
+
+  return <span className="text-xs whitespace-pre-wrap">{formatScalar(value)}</span>;
+}
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Heading } from 'react-aria-components';
+import { Modal } from '@/components/aria/Modal';
+import { Dialog } from '@/components/aria/Dialog';
+import { Button } from '@/components/aria/Button';
+import type { ToolApprovalDecision, ToolApprovalRequest } from '../../lib/McpClientManager';
+
+export interface ToolApprovalDialogProps {
+  /** Tool call awaiting a decision, or null when nothing is pending */
+  request: ToolApprovalRequest | null;
+  /** Handler for the user's choice; closing the dialog counts as 'deny' */
+  onDecide: (decision: ToolApprovalDecision) => void;
+}
+
+// Annotations worth calling out, in the order they are shown
+function describeAnnotations(request: ToolApprovalRequest): string[] {
+  const annotations = request.tool?.annotations;
+  if (!annotations) return [];
+  return [
+    annotations.readOnlyHint && 'Read-only',
+    annotations.destructiveHint !== false && !annotations.readOnlyHint && 'May modify or delete data',
+    annotations.idempotentHint && 'Idempotent',
+    annotations.openWorldHint && 'Reaches outside services',
+  ].filter((label): label is string => !!label);
+}
+
+/**
+ * Shows a tool call the model wants to make and asks the user whether it may run
+ */
+export function ToolApprovalDialog({ request, onDecide }: ToolApprovalDialogProps) {
+  const annotations = request ? describeAnnotations(request) : [];
+  const title = request?.tool?.annotations?.title ?? request?.tool?.title ?? request?.toolName;
+
+  return (
+    <Modal isOpen={!!request} onOpenChange={(isOpen) => !isOpen && onDecide('deny')}>
+      <Dialog>
+        <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+          Run {title}?
+        </Heading>
+        <p className="mt-2 text-sm text-slate-500 dark:text-zinc-400">
+          <code>{request?.toolName}</code> from server <code>{request?.serverName}</code> wants to run with these arguments.
+        </p>
+
+        {request?.tool?.description && (
+          <p className="mt-2 text-sm">{request.tool.description}</p>
+        )}
+
+        {annotations.length > 0 && (
+          <div className="mt-3 flex flex-wrap gap-1">
+            {annotations.map(label => (
+              <span key={label} className="px-2 py-0.5 text-xs rounded bg-gray-100 dark:bg-zinc-800">{label}</span>
+            ))}
+          </div>
+        )}
+
+        <pre className="mt-4 p-2 text-xs whitespace-pre-wrap rounded bg-gray-100 dark:bg-zinc-900 max-h-64 overflow-y-auto">
+          {JSON.stringify(request?.arguments ?? {}, null, 2)}
+        </pre>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <Button variant="secondary" onPress={() => onDecide('deny')}>
+            Deny
+          </Button>
+          <Button variant="secondary" onPress={() => onDecide('always-allow')}>
+            Always allow
+          </Button>
+          <Button variant="primary" autoFocus onPress={() => onDecide('allow-once')}>
+            Allow once
+          </Button>
+        </div>
+      </Dialog>
+    </Modal>
+  );
+}
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { ProgressBar } from '@/components/aria/ProgressBar';
+import { Button } from '@/components/aria/Button';
+
+export interface ToolCallProgressProps {
+  /** Name of the running tool */
+  toolName: string;
+  /** Latest progress notification, if the server sent any */
+  progress?: Progress;
+  /** Handler for cancelling the call */
+  onCancel: () => void;
+}
+
+/**
+ * Shows a running tool call with its reported progress and a cancel button
+ */
+export function ToolCallProgress({ toolName, progress, onCancel }: ToolCallProgressProps) {
+  // Without a total the server only tells us it is still working
+  const isIndeterminate = progress?.total === undefined;
+
+  return (
+    <div className="flex items-end gap-3">
+      <div className="flex flex-col gap-1">
+        <ProgressBar
+          label={`Running ${toolName}`}
+          isIndeterminate={isIndeterminate}
+          value={progress?.progress ?? 0}
+          maxValue={progress?.total ?? 100}
+        />
+        {progress?.message && (
+          <span className="text-xs text-gray-500 dark:text-zinc-400">{progress.message}</span>
+        )}
+      </div>
+      <Button variant="secondary" onPress={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 "use client";
 
-import { ServerConfig } from "../lib/McpClientManager";
+import { ServerConfig, ServerStartupStatus, rootsFromDirectories, ToolCallOptions, StructuredToolCallOptions, CompletionRef, EnvGroupResolver, ToolApprovalDecision, ToolApprovalRequest } from "../lib/McpClientManager";
 import { useWebContainer } from "./useWebcontainer";
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useContext, useMemo } from "react";
+import { WebContainerContext } from "../providers/Webcontainer";
 import { MCPClientManager } from "../lib/McpClientManager";
-import { Tool, Resource } from "@modelcontextprotocol/sdk/types.js";
+import { ToolPermissionPolicy, createWorkspaceToolPolicy } from "../lib/ToolPermissionPolicy";
+import { Tool, Resource, ResourceTemplate, Prompt, GetPromptResult, LoggingLevel, Request } from "@modelcontextprotocol/sdk/types.js";
 export type MCPServerStatus = 'NO_WEBCONTAINER_CONTEXT' | 'INSTALLING_NODE_MODULES' | 'STARTING' | 'READY' | 'RESTARTING' | 'ERROR';
 
 // export interface Resource {
@@ -29,14 +31,38 @@ export interface ReadResourceResponse {
   [key: string]: any;
 }
 
-export function useMCPServer(props: { mcpServers: Record<string, ServerConfig> }) {
+type PendingToolApproval = ToolApprovalRequest & {
+  resolve: (decision: ToolApprovalDecision) => void;
+};
+
+export function useMCPServer(props: {
+    mcpServers: Record<string, ServerConfig>;
+    envGroupResolver?: EnvGroupResolver;
+    // Checks tool calls against the workspace's saved tool permissions. Only pass this (or
+    // toolPolicy) when pendingToolApproval is rendered, e.g. with ToolApprovalDialog; without
+    // either, every tool call runs
+    workspaceId?: string;
+    toolPolicy?: ToolPermissionPolicy;
+  }) {
     const webContainer = useWebContainer();
+    const { portForwards, filesystemDirectories, packageCache } = useContext(WebContainerContext);
     const [status, setStatus] = useState<MCPServerStatus>('NO_WEBCONTAINER_CONTEXT');
     const [error, setError] = useState<Error | undefined>(undefined);
-    const [prompts, setPrompts] = useState<any[]>([]);
+    const [prompts, setPrompts] = useState<Prompt[]>([]);
     const [tools, setTools] = useState<Tool[]>([]);
     const [resources, setResources] = useState<Resource[]>([]);
+    const [resourceTemplates, setResourceTemplates] = useState<ResourceTemplate[]>([]);
     const [capabilities, setCapabilities] = useState<any>({});
+    // Bumped whenever a subscribed resource reports new content
+    const [resourceVersions, setResourceVersions] = useState<Record<string, number>>({});
+    // Startup progress of each configured server
+    const [serverStatuses, setServerStatuses] = useState<Record<string, ServerStartupStatus>>({});
+    // Tool calls waiting for the user to allow or deny them, shown one at a time
+    const [toolApprovalQueue, setToolApprovalQueue] = useState<PendingToolApproval[]>([]);
+    const toolPolicy = useMemo(
+      () => props.toolPolicy ?? (props.workspaceId !== undefined ? createWorkspaceToolPolicy(props.workspaceId) : null),
+      [props.toolPolicy, props.workspaceId]
+    );
     
     // Ref to the client manager
     const clientManagerRef = useRef<MCPClientManager | null>(null);
@@ -62,12 +88,50 @@ export function useMCPServer(props: { mcpServers: Record<string, ServerConfig> }
       const delayMs = 2000;
       console.log(`MCP Server: Delaying initialization for ${delayMs}ms to ensure WebContainer is ready`);
       
+      const unsubscribers: Array<() => void> = [];
+      
       const initTimer = setTimeout(async () => {
         try {
           // Create new client manager
           console.log('MCP Server: Creating client manager with WebContainer', webContainer);
           const clientManager = new MCPClientManager(webContainer);
           clientManagerRef.current = clientManager;
+          Object.entries(portForwards).forEach(([port, origin]) => clientManager.registerForwardedPort(Number(port), origin));
+          clientManager.setRoots(rootsFromDirectories(filesystemDirectories, webContainer.workdir));
+          clientManager.setEnvGroupResolver(props.envGroupResolver ?? null);
+          clientManager.setPackageCache(packageCache);
+          clientManager.setToolPolicy(toolPolicy);
+          clientManager.setToolApprovalHandler((request, signal) =>
+            new Promise<ToolApprovalDecision>((resolve) => {
+              const pending = { ...request, resolve };
+              setToolApprovalQueue((prev) => [...prev, pending]);
+              // The call gave up waiting, so stop asking
+              signal.addEventListener('abort', () => {
+                setToolApprovalQueue((prev) => prev.filter((entry) => entry !== pending));
+              });
+            })
+          );
+          
+          // Keep hook state in sync with server-side list changes
+          unsubscribers.push(clientManager.onListChanged(async (serverName, kind) => {
+            console.log(`MCP Server: ${kind} changed on ${serverName}, refreshing`);
+            if (kind === 'tools') {
+              setTools(await clientManager.listAllTools());
+            } else if (kind === 'resources') {
+              setResources(await clientManager.listAllResources());
+              setResourceTemplates(await clientManager.listAllResourceTemplates());
+            } else {
+              setPrompts(await clientManager.listAllPrompts());
+            }
+          }));
+          
+          unsubscribers.push(clientManager.onResourceUpdated((uri) => {
+            setResourceVersions(prev => ({ ...prev, [uri]: (prev[uri] || 0) + 1 }));
+          }));
+          
+          unsubscribers.push(clientManager.onServerStatus((serverName, serverStatus) => {
+            setServerStatuses(prev => ({ ...prev, [serverName]: serverStatus }));
+          }));
           
           // Initialize with retries
           let success = false;
@@ -111,11 +175,21 @@ export function useMCPServer(props: { mcpServers: Record<string, ServerConfig> }
               const resourcesList = await clientManager.listAllResources();
               console.log('MCP Server: Loaded resources:', resourcesList);
               setResources(resourcesList);
+              setResourceTemplates(await clientManager.listAllResourceTemplates());
             } catch (resourcesError) {
               console.warn('MCP Server: Failed to load resources:', resourcesError);
               // Continue even if resources fail to load
             }
             
+            try {
+              const promptsList = await clientManager.listAllPrompts();
+              console.log('MCP Server: Loaded prompts:', promptsList);
+              setPrompts(promptsList);
+            } catch (promptsError) {
+              console.warn('MCP Server: Failed to load prompts:', promptsError);
+              // Continue even if prompts fail to load
+            }
+            
             setStatus('READY');
             console.log('MCP Server: Initialization complete, status set to READY');
           }
@@ -150,6 +224,7 @@ export function useMCPServer(props: { mcpServers: Record<string, ServerConfig> }
       return () => {
         console.log('MCP Server: Cleaning up initialization');
         clearTimeout(initTimer);
+        unsubscribers.forEach(unsubscribe => unsubscribe());
         
         console.log('MCP Server: Disconnecting servers if connected');
         if (clientManagerRef.current) {
@@ -160,34 +235,82 @@ export function useMCPServer(props: { mcpServers: Record<string, ServerConfig> }
       };
     }, [webContainer, props.mcpServers]);
     
+    // Keep roots in step with the filesystems registered on the WebContainer
+    useEffect(() => {
+      clientManagerRef.current?.setRoots(rootsFromDirectories(filesystemDirectories, webContainer?.workdir));
+    }, [filesystemDirectories, webContainer]);
+    
+    // Servers spawned after logging in can use the new key
+    useEffect(() => {
+      clientManagerRef.current?.setEnvGroupResolver(props.envGroupResolver ?? null);
+    }, [props.envGroupResolver]);
+    
+    useEffect(() => {
+      clientManagerRef.current?.setToolPolicy(toolPolicy);
+    }, [toolPolicy]);
+    
     // Functions for interacting with MCP server
-    const executePrompt = async (promptId: string, variables?: Record<string, any>) => {
+    const executePrompt = async (promptId: string, variables?: Record<string, string>): Promise<GetPromptResult> => {
       if (!clientManagerRef.current || status !== 'READY') {
         throw new Error('MCP Client Manager is not ready');
       }
       
       try {
-        // This is a placeholder - actual implementation would depend on your MCP server
-        return { success: true, promptId, variables };
+        return await clientManagerRef.current.getPrompt(promptId, variables);
       } catch (err) {
         console.error(`Error executing prompt ${promptId}:`, err);
         throw err;
       }
     };
     
-    const executeTool = async (toolName: string, args: any) => {
+    const completeArgument = async (ref: CompletionRef, argumentName: string, value: string, context?: Record<string, string>) => {
+      if (!clientManagerRef.current || status !== 'READY') {
+        return [];
+      }
+      
+      return clientManagerRef.current.completeArgument(ref, argumentName, value, context);
+    };
+    
+    const setServerLogLevel = async (serverName: string, level: LoggingLevel) => {
+      if (!clientManagerRef.current) {
+        throw new Error('MCP Client Manager is not ready');
+      }
+      
+      await clientManagerRef.current.setServerLogLevel(serverName, level);
+    };
+    
+    const getServerLogLevel = (serverName: string) => clientManagerRef.current?.getServerLogLevel(serverName);
+    
+    const replayRequest = async (serverName: string, request: Request) => {
+      if (!clientManagerRef.current) {
+        throw new Error('MCP Client Manager is not ready');
+      }
+      
+      return clientManagerRef.current.replayRequest(serverName, request);
+    };
+    
+    const executeTool = async (toolName: string, args: any, options?: ToolCallOptions) => {
       if (!clientManagerRef.current || status !== 'READY') {
         throw new Error('MCP Client Manager is not ready');
       }
       
       try {
-        return await clientManagerRef.current.callTool(toolName, args);
+        return await clientManagerRef.current.callTool(toolName, args, options);
       } catch (err) {
         console.error(`Error executing tool ${toolName}:`, err);
         throw err;
       }
     };
     
+    // Call a tool whose output shape is known; resolves to its validated structuredContent
+    const executeToolStructured = async <T = Record<string, unknown>>(toolName: string, args: any, options?: StructuredToolCallOptions<T>) => {
+      if (!clientManagerRef.current || status !== 'READY') {
+        throw new Error('MCP Client Manager is not ready');
+      }
+      
+      return clientManagerRef.current.callToolStructured<T>(toolName, args, options);
+    };
+    
     const fetchResource = async (resourceUri: string) => {
       if (!clientManagerRef.current || status !== 'READY') {
         throw new Error('MCP Client Manager is not ready');
@@ -201,9 +324,44 @@ export function useMCPServer(props: { mcpServers: Record<string, ServerConfig> }
       }
     };
     
+    const subscribeResource = async (resourceUri: string) => {
+      if (!clientManagerRef.current || status !== 'READY') {
+        throw new Error('MCP Client Manager is not ready');
+      }
+      
+      try {
+        await clientManagerRef.current.subscribeResource(resourceUri);
+      } catch (err) {
+        console.error(`Error subscribing to resource ${resourceUri}:`, err);
+        throw err;
+      }
+    };
+    
+    const unsubscribeResource = async (resourceUri: string) => {
+      if (!clientManagerRef.current) {
+        return;
+      }
+      
+      try {
+        await clientManagerRef.current.unsubscribeResource(resourceUri);
+      } catch (err) {
+        console.error(`Error unsubscribing from resource ${resourceUri}:`, err);
+      }
+    };
+    
     const refreshPrompts = async () => {
-      // This is a placeholder - actual implementation would depend on your MCP server
-      return prompts;
+      if (!clientManagerRef.current || status !== 'READY') {
+        throw new Error('MCP Client Manager is not ready');
+      }
+      
+      try {
+        const promptsList = await clientManagerRef.current.listAllPrompts();
+        setPrompts(promptsList);
+        return promptsList;
+      } catch (err) {
+        console.error('Error refreshing prompts:', err);
+        throw err;
+      }
     };
     
     const refreshTools = async () => {
@@ -229,6 +387,7 @@ export function useMCPServer(props: { mcpServers: Record<string, ServerConfig> }
       try {
         const resourcesList = await clientManagerRef.current.listAllResources();
         setResources(resourcesList);
+        setResourceTemplates(await clientManagerRef.current.listAllResourceTemplates());
         return resourcesList;
       } catch (err) {
         console.error('Error refreshing resources:', err);
@@ -236,20 +395,51 @@ export function useMCPServer(props: { mcpServers: Record<string, ServerConfig> }
       }
     };
     
+    // Answer the oldest pending tool approval, e.g. from ToolApprovalDialog
+    const decideToolApproval = (decision: ToolApprovalDecision) => {
+      const [pending] = toolApprovalQueue;
+      if (!pending) return;
+      setToolApprovalQueue((prev) => prev.slice(1));
+      pending.resolve(decision);
+    };
+    
+    // Surface crash recovery while the rest of the servers keep serving
+    const isRestarting = Object.values(serverStatuses).includes('restarting');
+    
     return {
-      status,
+      status: status === 'READY' && isRestarting ? 'RESTARTING' as MCPServerStatus : status,
       error,
       prompts,
       tools,
       resources,
+      resourceTemplates,
+      resourceVersions,
+      serverStatuses,
       capabilities,
       executePrompt,
       executeTool,
+      executeToolStructured,
+      completeArgument,
+      setServerLogLevel,
+      getServerLogLevel,
+      replayRequest,
       fetchResource,
+      subscribeResource,
+      unsubscribeResource,
       refreshPrompts,
       refreshTools,
       refreshResources,
+      toolPolicy,
+      pendingToolApproval: toolApprovalQueue[0] ?? null,
+      decideToolApproval,
       // Expose the toolToServerMap to allow components to access the mapping
-      toolToServerMap: clientManagerRef.current ? clientManagerRef.current.toolToServerMap : undefined
+      toolToServerMap: clientManagerRef.current ? clientManagerRef.current.toolToServerMap : undefined,
+      // Unqualified tool names that several servers expose
+      toolCollisions: clientManagerRef.current ? clientManagerRef.current.toolCollisions : undefined,
+      promptToServerMap: clientManagerRef.current ? clientManagerRef.current.promptToServerMap : undefined,
+      // Captured stderr and log messages, read through useServerLogs
+      logStore: clientManagerRef.current ? clientManagerRef.current.logStore : undefined,
+      // Recorded JSON-RPC traffic, read through useProtocolTraffic
+      inspector: clientManagerRef.current ? clientManagerRef.current.inspector : undefined
     };
   }
\ No newline at end of file
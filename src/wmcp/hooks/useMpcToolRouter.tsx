@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useMCPServer } from './useMcpServer';
 import toolEmbeddingService, { ModelProgress } from '../lib/SimpleToolEmbeddingService';
-import type { ServerConfig } from '../lib/McpClientManager';
+import type { ServerConfig, ToolCallOptions } from '../lib/McpClientManager';
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 
 // Interfaces for the hook
@@ -52,7 +52,7 @@ export interface UseMpcToolRouterResult {
   
   // Functions
   handleSubmit: (e: React.FormEvent) => Promise<void>;
-  executeTool: (toolName: string, args: any) => Promise<any>;
+  executeTool: (toolName: string, args: any, options?: ToolCallOptions) => Promise<any>;
 }
 
 export function useMpcToolRouter(serverConfigs: Record<string, ServerConfig> = {}): UseMpcToolRouterResult {
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import type { ProtocolInspector, TrafficEntry } from "../lib/ProtocolInspector";
+
+// Live view of the recorded JSON-RPC traffic for one server, or for all servers when no name is given
+export function useProtocolTraffic(inspector: ProtocolInspector | undefined, serverName?: string) {
+    const [entries, setEntries] = useState<TrafficEntry[]>(() => inspector?.getEntries(serverName) ?? []);
+
+    useEffect(() => {
+        if (!inspector) {
+            setEntries([]);
+            return;
+        }
+
+        setEntries(inspector.getEntries(serverName));
+        return inspector.onEntry((entry) => {
+            if (!serverName || entry.serverName === serverName) {
+                setEntries(inspector.getEntries(serverName));
+            }
+        });
+    }, [inspector, serverName]);
+
+    // Clearing doesn't emit an entry, so refresh the view here
+    const clear = () => {
+        inspector?.clear(serverName);
+        setEntries([]);
+    };
+
+    return { entries, clear };
+}
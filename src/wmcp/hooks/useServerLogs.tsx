@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import type { ServerLogEntry, ServerLogStore } from "../lib/ServerLogStore";
+
+// Live view of the captured logs for one server, or for all servers when no name is given
+export function useServerLogs(logStore: ServerLogStore | undefined, serverName?: string) {
+    const [logs, setLogs] = useState<ServerLogEntry[]>(() => logStore?.getLogs(serverName) ?? []);
+
+    useEffect(() => {
+        if (!logStore) {
+            setLogs([]);
+            return;
+        }
+
+        setLogs(logStore.getLogs(serverName));
+        return logStore.onLog((entry) => {
+            if (!serverName || entry.serverName === serverName) {
+                setLogs(logStore.getLogs(serverName));
+            }
+        });
+    }, [logStore, serverName]);
+
+    // Clearing doesn't emit an entry, so refresh the view here
+    const clear = () => {
+        logStore?.clear(serverName);
+        setLogs([]);
+    };
+
+    return { logs, clear };
+}
@@ -2,4 +2,20 @@ export * from './providers/Webcontainer';
 export * from './hooks/useWebcontainer';
 export * from './hooks/useMcpServer';
 export * from './hooks/useMpcToolRouter';
-export type { ServerConfig } from './lib/McpClientManager';
+export * from './hooks/useServerLogs';
+export * from './hooks/useProtocolTraffic';
+export type { ServerConfig, ServerStartupStatus, RestartPolicy, StdioServerConfig, RemoteServerConfig, InPageServerConfig, InPageServerContext, EnvGroupResolver, SamplingHandler, ElicitationHandler, ToolApprovalHandler, ToolApprovalRequest, ToolApprovalDecision, ToolCallOptions, StructuredToolCallOptions, CompletionRef, ArgumentCompleter } from './lib/McpClientManager';
+export { ServerCrashedError, ToolOutputValidationError, ToolCallDeniedError, getStructuredContent, isRemoteServerConfig, describeServerConfig, isInPageServerConfig, rootsFromDirectories, DEFAULT_TOOL_CALL_TIMEOUT_MS, expandResourceTemplate, getTemplateVariables, DEFAULT_MAX_LIST_PAGES, DEFAULT_NPX_SERVER_CONFIGS } from './lib/McpClientManager';
+export { createWebContainerFsServer, WEBCONTAINER_FS_SERVER_CONFIG } from './lib/webContainerFsServer';
+export { ServerLogStore, LOG_LEVELS, DEFAULT_MAX_LOG_ENTRIES, isAtLeastLevel } from './lib/ServerLogStore';
+export type { ServerLogEntry } from './lib/ServerLogStore';
+export { PackageCache, parseNpxCommand, isPinnedVersion, PACKAGE_CACHE_DB_NAME, DEFAULT_PACKAGE_CACHE_MAX_AGE_MS, SERVER_PACKAGES_DIR } from './lib/PackageCache';
+export type { PackageCacheOptions, NpxPackageSpec, SnapshotStore, CachedSnapshot } from './lib/PackageCache';
+export { ToolPermissionPolicy, defaultToolPermission, matchesGlob, loadToolPermissionRules, saveToolPermissionRules, createWorkspaceToolPolicy, TOOL_POLICY_STORAGE_PREFIX, DEFAULT_WORKSPACE_ID } from './lib/ToolPermissionPolicy';
+export type { ToolPermission, ToolPermissionRule } from './lib/ToolPermissionPolicy';
+export type { ServerConfigFileFormat, ServerConfigFieldError, ServerConfigVariable, ServerConfigImport } from './lib/serverConfigFile';
+export { parseServerConfigFile, applyServerConfigVariables, importServerConfigs, exportServerConfigs, ServerConfigImportError } from './lib/serverConfigFile';
+export type { ServerCatalogEntry, ServerCatalogField, CreateServerFromCatalogOptions } from './lib/serverCatalog';
+export { DEFAULT_SERVER_CATALOG, parseServerCatalog, mergeServerCatalogs, serverCatalogFormSchema, serverCatalogDefaults, createServerFromCatalog, serverCatalogSecretEnv, serverCatalogSecretGroupName } from './lib/serverCatalog';
+export { ProtocolInspector, RecordingTransport, DEFAULT_MAX_TRAFFIC_ENTRIES, classifyMessage } from './lib/ProtocolInspector';
+export type { TrafficEntry, TrafficDirection, TrafficKind } from './lib/ProtocolInspector';
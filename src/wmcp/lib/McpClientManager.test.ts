@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ROOTS, rootsFromDirectories } from './McpClientManager';
+
+describe('rootsFromDirectories', () => {
+  it('should point roots inside the WebContainer workdir', () => {
+    expect(rootsFromDirectories({ 'fs-a': ['src', '/docs/'], 'fs-b': ['src'] }, '/home/project/')).toEqual([
+      { uri: 'file:///home/project/src', name: 'src' },
+      { uri: 'file:///home/project/docs', name: 'docs' },
+    ]);
+  });
+
+  it('should fall back to the workdir, or the whole container without one', () => {
+    expect(rootsFromDirectories({}, '/home/project')).toEqual([{ uri: 'file:///home/project', name: 'webcontainer' }]);
+    expect(rootsFromDirectories({})).toBe(DEFAULT_ROOTS);
+  });
+});
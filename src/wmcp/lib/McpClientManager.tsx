@@ -1,34 +1,392 @@
 import { Client, } from '@modelcontextprotocol/sdk/client/index.js';
-import { Tool, Resource, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
-import { WebContainerStdioTransport } from './WebcontainerStdioTransport';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import type { JsonSchemaType, JsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/types.js';
+import {
+    Tool,
+    Resource,
+    ResourceTemplate,
+    ReadResourceResult,
+    Prompt,
+    GetPromptResult,
+    ToolListChangedNotificationSchema,
+    ResourceListChangedNotificationSchema,
+    PromptListChangedNotificationSchema,
+    ResourceUpdatedNotificationSchema,
+    LoggingMessageNotificationSchema,
+    LoggingLevel,
+    ResultSchema,
+    CreateMessageRequestSchema,
+    CreateMessageRequest,
+    CreateMessageResult,
+    ListRootsRequestSchema,
+    Root,
+    ElicitRequestSchema,
+    ElicitRequestFormParams,
+    ElicitResult,
+    Progress,
+    CallToolResult,
+    CallToolResultSchema,
+    Request,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ZodType } from 'zod';
+import { StdioServerProcess, WebContainerStdioTransport } from './WebcontainerStdioTransport';
+import { ServerLogStore, inferStderrLevel } from './ServerLogStore';
+import { ProtocolInspector, RecordingTransport } from './ProtocolInspector';
+import type { PackageCache } from './PackageCache';
+import type { ToolPermissionPolicy } from './ToolPermissionPolicy';
 import { WebContainer } from '@webcontainer/api';
 
-type ServerProcess = {
-    input: WritableStream<string>;
-    output?: ReadableStream<Uint8Array | string>;
-    stderr?: ReadableStream<Uint8Array | string>;
-    kill?: () => void;
-    exit?: Promise<any>;
+type ServerProcess = StdioServerProcess;
+export type ListChangedKind = 'tools' | 'resources' | 'prompts';
+
+// Answers a server's sampling/createMessage request, e.g. after asking the user
+export type SamplingHandler = (
+    serverName: string,
+    params: CreateMessageRequest['params']
+) => Promise<CreateMessageResult>;
+
+// Collects the structured input a server asked for with elicitation/create
+export type ElicitationHandler = (
+    serverName: string,
+    params: ElicitRequestFormParams
+) => Promise<ElicitResult>;
+
+// A tool call the policy wants the user to confirm before it is sent
+export type ToolApprovalRequest = {
+    serverName: string;
+    // The server's own name for the tool
+    toolName: string;
+    // The name the call was made with, e.g. `memory__create_entities`
+    qualifiedName: string;
+    arguments: Record<string, unknown>;
+    tool?: Tool;
+};
+
+// 'always-allow' also adds an allow rule for the tool to the policy
+export type ToolApprovalDecision = 'allow-once' | 'always-allow' | 'deny';
+
+// Asks the user whether a tool call may run. The signal aborts when the call is cancelled or times
+// out before anyone answers, so the question can be withdrawn
+export type ToolApprovalHandler = (request: ToolApprovalRequest, signal: AbortSignal) => Promise<ToolApprovalDecision>;
+
+// Options shared by every kind of server
+type ServerOptions = {
+    // Namespace used in qualified tool names instead of the server name
+    alias?: string;
+    // How long to wait for the initialize handshake before giving up
+    startupTimeoutMs?: number;
+    // Overrides for how the server is restarted after it crashes
+    restartPolicy?: Partial<RestartPolicy>;
+    // URIs or names of the roots this server may see; all roots when omitted
+    roots?: string[];
+    // Most pages to follow when listing tools, resources or prompts
+    maxListPages?: number;
 };
-export type ServerConfig = {
+
+// A server process spawned inside the WebContainer and spoken to over stdio
+export type StdioServerConfig = ServerOptions & {
+    type?: 'stdio';
     command: string;
     args: string[];
     env?: Record<string, string>;
-  };
+    // Names of env groups whose variables are decrypted into the process env at spawn time,
+    // so secrets never live in the config itself; `env` wins over group values
+    envGroups?: string[];
+};
+
+// Looks up env groups by name and returns their decrypted variables, merged in the given order
+export type EnvGroupResolver = (groupNames: string[]) => Promise<Record<string, string>>;
+
+// A server that is already listening for Streamable HTTP or SSE connections
+export type RemoteServerConfig = ServerOptions & {
+    type: 'http' | 'sse';
+    // Absolute endpoint, or a path on the forwarded origin of `port`
+    url: string;
+    // WebContainer port the server listens on, resolved through `server-ready`
+    port?: number;
+    headers?: Record<string, string>;
+    // Names of env groups whose variables fill `${NAME}` placeholders in `headers` when connecting,
+    // so tokens never live in the config itself
+    envGroups?: string[];
+};
+
+// Passed to in-page server factories so their tools can reach the page's resources
+export type InPageServerContext = {
+    webContainer: WebContainer | null;
+};
+
+// A server implemented in the page itself and connected over an in-memory transport
+export type InPageServerConfig = ServerOptions & {
+    type: 'in-page';
+    // Called on every (re)start; each call must return a server that isn't connected yet
+    createServer: (context: InPageServerContext) => McpServer | Server | Promise<McpServer | Server>;
+};
+
+export type ServerConfig = StdioServerConfig | RemoteServerConfig | InPageServerConfig;
+
+export function isRemoteServerConfig(config: ServerConfig): config is RemoteServerConfig {
+    return config.type === 'http' || config.type === 'sse';
+}
+
+export function isInPageServerConfig(config: ServerConfig): config is InPageServerConfig {
+    return config.type === 'in-page';
+}
+
+// Short human-readable description of where a server runs
+export function describeServerConfig(config: ServerConfig): string {
+    if (isRemoteServerConfig(config)) {
+      const target = config.port !== undefined ? `port ${config.port}${config.url}` : config.url;
+      return `${config.type.toUpperCase()} ${target}`;
+    }
+    if (isInPageServerConfig(config)) {
+      return 'In-page server';
+    }
+    return `${config.command} ${config.args.join(' ')}`;
+}
+
+// Reference servers from the MCP project, installed with npx on first start
+export const DEFAULT_NPX_SERVER_CONFIGS: Record<string, StdioServerConfig> = {
+    memory: {
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-memory'],
+      env: {},
+    },
+    filesystem: {
+      command: 'npx',
+      // Allowed directories come from the client's roots
+      args: ['-y', '@modelcontextprotocol/server-filesystem'],
+      env: {},
+    },
+    'sequential-thinking': {
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-sequential-thinking'],
+      env: {},
+    },
+    everything: {
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-everything'],
+      env: {},
+    },
+};
+
+// Exposed when no filesystem has been registered: the whole WebContainer
+export const DEFAULT_ROOTS: Root[] = [{ uri: 'file:///', name: 'webcontainer' }];
+
+// Turn the top-level directories of registered filesystems into MCP roots. Filesystems are mounted
+// in the WebContainer's workdir (e.g. `/home/project`), so the roots point inside it
+export function rootsFromDirectories(directories: Record<string, string[]>, workdir: string = ''): Root[] {
+    const base = workdir.replace(/\/+$/, '');
+    const roots = new Map<string, Root>();
+    for (const dirs of Object.values(directories)) {
+      for (const dir of dirs) {
+        const name = dir.replace(/^\/+|\/+$/g, '');
+        const uri = `file://${base}/${name}`;
+        roots.set(uri, { uri, name });
+      }
+    }
+    if (roots.size > 0) {
+      return Array.from(roots.values());
+    }
+    return base ? [{ uri: `file://${base}`, name: 'webcontainer' }] : DEFAULT_ROOTS;
+}
+
+export type RestartPolicy = {
+    maxAttempts: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+};
+
+// Delays double from initialDelayMs up to maxDelayMs between restart attempts
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+    maxAttempts: 5,
+    initialDelayMs: 1000,
+    maxDelayMs: 30000,
+};
+
+// A server that stays up this long gets a fresh set of restart attempts
+const RESTART_ATTEMPTS_RESET_MS = 60000;
+
+// Rejects calls that were in flight when their server process exited
+export class ServerCrashedError extends Error {
+    constructor(public serverName: string, public exitCode?: number) {
+      super(`MCP server ${serverName} crashed${exitCode !== undefined ? ` with exit code ${exitCode}` : ''}`);
+      this.name = 'ServerCrashedError';
+    }
+  }
+
+// Rejects tool calls whose structuredContent is missing or doesn't match the tool's outputSchema
+export class ToolOutputValidationError extends Error {
+    constructor(public toolName: string, public reason: string, public result: CallToolResult) {
+      super(`Output of tool ${toolName} is invalid: ${reason}`);
+      this.name = 'ToolOutputValidationError';
+    }
+  }
+
+// Rejects tool calls that the tool permission policy or the user refused
+export class ToolCallDeniedError extends Error {
+    constructor(public toolName: string, public reason: string) {
+      super(`Tool ${toolName} was not run: ${reason}`);
+      this.name = 'ToolCallDeniedError';
+    }
+  }
+
+// Servers installed through npx can take a while to answer the first request
+export const DEFAULT_STARTUP_TIMEOUT_MS = 60000;
+
+// Startup lifecycle of a single server, reported through onServerStatus
+// 'crashed' means the server exited and ran out of restart attempts
+export type ServerStartupStatus = 'spawning' | 'initializing' | 'ready' | 'error' | 'restarting' | 'crashed';
+
+// Stops a server with a runaway cursor from stalling startup
+export const DEFAULT_MAX_LIST_PAGES = 50;
+
+// Separator between the server namespace and the tool name, e.g. `memory__create_entities`
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+// What a completion/complete request is for: a prompt argument or a resource template variable
+export type CompletionRef =
+    | { type: 'ref/prompt'; name: string }
+    | { type: 'ref/resource'; uri: string };
+
+// Signature of completeArgument, for components that offer completions
+export type ArgumentCompleter = (
+    ref: CompletionRef,
+    argumentName: string,
+    value: string,
+    context?: Record<string, string>
+) => Promise<string[]>;
+
+// Per-call options for callTool
+export type ToolCallOptions = {
+    // Receives the server's notifications/progress for this call
+    onProgress?: (progress: Progress) => void;
+    // Aborting sends notifications/cancelled to the server and rejects the call
+    signal?: AbortSignal;
+    // How long to wait for a result; every progress notification restarts the clock
+    timeoutMs?: number;
+};
+
+// Tools that don't report progress get this long to answer
+export const DEFAULT_TOOL_CALL_TIMEOUT_MS = 120000;
+
+// Options for callToolStructured; schema checks structuredContent on top of the tool's outputSchema
+export type StructuredToolCallOptions<T> = ToolCallOptions & {
+    schema?: ZodType<T>;
+};
+
+// Typed view of a result's structuredContent; throws ToolOutputValidationError when it is
+// missing or doesn't match the schema
+export function getStructuredContent<T = Record<string, unknown>>(
+    toolName: string,
+    result: CallToolResult,
+    schema?: ZodType<T>
+): T {
+    if (result.isError) {
+        const text = result.content.find(item => item.type === 'text');
+        throw new Error(text && 'text' in text ? text.text : `Tool ${toolName} returned an error`);
+    }
+    if (!result.structuredContent) {
+        throw new ToolOutputValidationError(toolName, 'no structured content was returned', result);
+    }
+    if (!schema) {
+        return result.structuredContent as T;
+    }
+    
+    const parsed = schema.safeParse(result.structuredContent);
+    if (!parsed.success) {
+        throw new ToolOutputValidationError(toolName, parsed.error.message, result);
+    }
+    return parsed.data;
+}
+
+export type QualifiedTool = {
+    serverName: string;
+    toolName: string;
+};
+
+// Build the qualified name a tool is exposed under
+export function qualifyToolName(namespace: string, toolName: string): string {
+    const safeNamespace = namespace.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return `${safeNamespace}${TOOL_NAMESPACE_SEPARATOR}${toolName}`;
+}
+
+// Names of the variables in an RFC 6570 resource template, e.g. `owner` and `repo`
+export function getTemplateVariables(uriTemplate: string): string[] {
+    return new UriTemplate(uriTemplate).variableNames;
+}
+
+// Fill in an RFC 6570 resource template to get a concrete resource URI
+export function expandResourceTemplate(uriTemplate: string, variables: Record<string, string>): string {
+    return new UriTemplate(uriTemplate).expand(variables);
+}
+
   export class MCPClientManager {
     private clients: Map<string, Client> = new Map();
-    private transports: Map<string, WebContainerStdioTransport> = new Map();
+    private transports: Map<string, Transport> = new Map();
     private processes: Map<string, ServerProcess> = new Map();
+    private inPageServers: Map<string, McpServer | Server> = new Map();
+    // Keyed by qualified tool name (see qualifyToolName)
     public toolToServerMap: Map<string, string> = new Map();
+    public qualifiedTools: Map<string, QualifiedTool> = new Map();
+    // Unqualified tool names exposed by more than one server
+    public toolCollisions: Map<string, string[]> = new Map();
     private resourceToServerMap: Map<string, string> = new Map();
+    public promptToServerMap: Map<string, string> = new Map();
     private serverConfigs: Map<string, ServerConfig> = new Map();
     private isInitialized: boolean = false;
     private toolsCache: Record<string, any> = {};
+    // Compiled outputSchema validators, keyed by qualified tool name
+    private toolOutputValidators: Map<string, JsonSchemaValidator<unknown>> = new Map();
+    private jsonSchemaValidator = new AjvJsonSchemaValidator();
     private resourcesCache: Record<string, any> = {};
+    // Parameterized resources; reads of matching URIs go to the owning server
+    private resourceTemplatesCache: Record<string, ResourceTemplate[]> = {};
+    private promptsCache: Record<string, any> = {};
     private webContainer: WebContainer | null = null;
+    private listChangedListeners: Array<(serverName: string, kind: ListChangedKind) => void> = [];
+    private resourceUpdatedListeners: Array<(uri: string, serverName: string) => void> = [];
+    private serverStatuses: Map<string, ServerStartupStatus> = new Map();
+    // stderr output and notifications/message from every server
+    public readonly logStore = new ServerLogStore();
+    // Every JSON-RPC message exchanged with every server
+    public readonly inspector = new ProtocolInspector();
+    // Levels chosen with setServerLogLevel, re-applied when a server restarts
+    private logLevels: Map<string, LoggingLevel> = new Map();
+    private serverStatusListeners: Array<(serverName: string, status: ServerStartupStatus, error?: Error) => void> = [];
+    private readyAt: Map<string, number> = new Map();
+    private restartAttempts: Map<string, number> = new Map();
+    private restartTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    // Rejecters for tool calls still waiting on each server
+    private inFlightCalls: Map<string, Set<(error: Error) => void>> = new Map();
+    // Origins the WebContainer forwards each listening port to
+    private forwardedPorts: Map<number, string> = new Map();
+    private portWaiters: Map<number, Array<(origin: string) => void>> = new Map();
+    private samplingHandler: SamplingHandler | null = null;
+    private elicitationHandler: ElicitationHandler | null = null;
+    private envGroupResolver: EnvGroupResolver | null = null;
+    private packageCache: PackageCache | null = null;
+    private toolPolicy: ToolPermissionPolicy | null = null;
+    private toolApprovalHandler: ToolApprovalHandler | null = null;
+    private roots: Root[] = DEFAULT_ROOTS;
   
     constructor(webContainer: WebContainer | null) {
       this.webContainer = webContainer;
+      webContainer?.on('server-ready', (port, url) => this.registerForwardedPort(port, url));
+    }
+  
+    // Record the origin a WebContainer port is reachable at, e.g. from an earlier server-ready event
+    registerForwardedPort(port: number, origin: string): void {
+      this.forwardedPorts.set(port, origin);
+      const waiters = this.portWaiters.get(port) || [];
+      this.portWaiters.delete(port);
+      waiters.forEach(resolve => resolve(origin));
     }
   
     // Add a method to check if WebContainer is ready
@@ -111,35 +469,24 @@ export type ServerConfig = {
       try {
         // console.log(`Connecting to MCP server: ${serverName}`);
         
-        if (!this.webContainer) {
-          throw new Error('WebContainer is not available');
-        }
-        
-        // Start the server process
-        const process = await startServerProcess(this.webContainer, config, serverName);
-        this.processes.set(serverName, process);
+        const startupTimeoutMs = config.startupTimeoutMs ?? DEFAULT_STARTUP_TIMEOUT_MS;
         
-        // Add a longer delay to allow the server to start - increased to 8 seconds
-        console.log(`Waiting for server ${serverName} to start...`);
-        await new Promise(resolve => setTimeout(resolve, 8000)); // 8 second delay
-        
-        console.log(`Attempting to connect to MCP server ${serverName}...`);
-        
-        // Create transport with a more descriptive error handler
-        const transport = new WebContainerStdioTransport(
-          process, 
-          () => {
-            console.log(`MCP server ${serverName} is ready`);
-          },
-          serverName
-        );
+        // Spawn a stdio server, start an in-page one, or point at one that is already listening
+        const transport = isRemoteServerConfig(config)
+          ? await this.createRemoteTransport(serverName, config, startupTimeoutMs)
+          : isInPageServerConfig(config)
+            ? await this.createInPageTransport(serverName, config)
+            : await this.createStdioTransport(serverName, config);
         
-        transport.onerror = (error) => {
+        // Record traffic for the inspector on its way through
+        const recordingTransport = new RecordingTransport(transport, (direction, message) => {
+          this.inspector.record(serverName, direction, message);
+        });
+        recordingTransport.onerror = (error) => {
           console.error(`Transport error for ${serverName}:`, error);
         };
         
-        // Start the transport
-        await transport.start();
+        // client.connect starts the transport
         this.transports.set(serverName, transport);
         
         try {
@@ -148,58 +495,31 @@ export type ServerConfig = {
           const client = new Client({
             name: `memory-client-${serverName}`,
             version: '0.0.1'  // Match expected server version
+          }, {
+            // Servers only see sampling and elicitation when a handler can answer them
+            capabilities: {
+              roots: { listChanged: true },
+              ...(this.samplingHandler && { sampling: {} }),
+              ...(this.elicitationHandler && { elicitation: { form: {} } })
+            }
           });
           
-          // Connect client to transport with timeout and retry
-          console.log(`Attempting to connect client to server ${serverName}...`);
+          // Register before connecting so no change notification is missed
+          this.registerNotificationHandlers(serverName, client);
+          this.registerRequestHandlers(serverName, client);
           
-          let connected = false;
-          let attempts = 0;
-          const maxAttempts = 3;
+          // The server is ready as soon as it answers initialize
+          this.setServerStatus(serverName, 'initializing');
+          console.log(`Initializing MCP server ${serverName} (timeout ${startupTimeoutMs}ms)...`);
           
-          while (!connected && attempts < maxAttempts) {
-            attempts++;
-            try {
-              // Add a small delay between connection attempts
-              if (attempts > 1) {
-                await new Promise(resolve => setTimeout(resolve, 2000));
-              }
-              
-              console.log(`Connection attempt ${attempts} for server ${serverName}`);
-              
-              // Register a message handler for better debugging
-              transport.onmessage = (message) => {
-                console.log(`Received message from server ${serverName}:`, message);
-              };
-              
-              // Use a simplified initialization sequence
-              const connectPromise = client.connect(transport as any);
-              
-              // Add a timeout for connection
-              const connectTimeout = new Promise<void>((_, reject) => {
-                setTimeout(() => reject(new Error(`Connection to ${serverName} timed out after 15 seconds`)), 15000);
-              });
-              
-              await Promise.race([connectPromise, connectTimeout]);
-              connected = true;
-              
-              console.log(`Successfully connected to server ${serverName} on attempt ${attempts}`);
-            } catch (error) {
-              console.error(`Connection attempt ${attempts} failed:`, error);
-              
-              // Additional logging to understand the error better
-              if (error instanceof Error) {
-                console.error(`Error details: ${error.message}`);
-                console.error(`Error stack: ${error.stack}`);
-              }
-              
-              if (attempts >= maxAttempts) {
-                throw error;
-              }
-            }
-          }
+          await client.connect(recordingTransport, { timeout: startupTimeoutMs });
+          
+          console.log(`Successfully connected to server ${serverName}`);
           
           this.clients.set(serverName, client);
+          this.readyAt.set(serverName, Date.now());
+          await this.applyLogLevel(serverName, client);
+          this.setServerStatus(serverName, 'ready');
         } catch (error) {
           // console.error(`Failed to connect client for ${serverName}:`, error);
           
@@ -215,8 +535,11 @@ export type ServerConfig = {
         }
       } catch (error) {
         console.error(`Error connecting to server ${serverName}:`, error);
+        this.setServerStatus(serverName, 'error', error instanceof Error ? error : new Error(String(error)));
         
         // Clean up resources if connection failed
+        await this.closeInPageServer(serverName);
+        
         if (this.processes.has(serverName)) {
           const process = this.processes.get(serverName);
           if (process && process.kill) {
@@ -245,64 +568,764 @@ export type ServerConfig = {
       }
     }
   
-    // Map tools and resources from all servers
+    private async createStdioTransport(serverName: string, config: StdioServerConfig): Promise<WebContainerStdioTransport> {
+      if (!this.webContainer) {
+        throw new Error('WebContainer is not available');
+      }
+      
+      // Start the server process
+      this.setServerStatus(serverName, 'spawning');
+      const env = await this.resolveProcessEnv(serverName, config);
+      const launchConfig = await this.prepareLaunchConfig(this.webContainer, serverName, config);
+      const process = await startServerProcess(this.webContainer, launchConfig, serverName, env);
+      this.processes.set(serverName, process);
+      process.exit?.then((code) => this.handleProcessExit(serverName, process, code));
+      
+      const transport = new WebContainerStdioTransport(process, serverName);
+      transport.onstderr = (text) => {
+        this.logStore.append(serverName, { level: inferStderrLevel(text), source: 'stderr', message: text });
+      };
+      return transport;
+    }
+  
+    // The package cache's command for the server, or the config's own if it can't provide one
+    private async prepareLaunchConfig(container: WebContainer, serverName: string, config: StdioServerConfig): Promise<StdioServerConfig> {
+      if (!this.packageCache) {
+        return config;
+      }
+      try {
+        return await this.packageCache.prepareServer(container, config);
+      } catch (error) {
+        console.warn(`Package cache could not prepare ${serverName}, falling back to ${config.command}`, error);
+        return config;
+      }
+    }
+  
+    // Merge the server's env groups under its own env; the result is only handed to spawn
+    private async resolveProcessEnv(serverName: string, config: StdioServerConfig): Promise<Record<string, string>> {
+      if (!config.envGroups?.length) {
+        return config.env || {};
+      }
+      if (!this.envGroupResolver) {
+        throw new Error(`Server ${serverName} uses env groups ${config.envGroups.join(', ')} but no env group resolver is set`);
+      }
+      
+      const groupEnv = await this.envGroupResolver(config.envGroups);
+      return { ...groupEnv, ...config.env };
+    }
+  
+    // Fill header placeholders from the server's env groups; the result is only handed to the transport
+    private async resolveRemoteHeaders(serverName: string, config: RemoteServerConfig): Promise<Record<string, string> | undefined> {
+      if (!config.envGroups?.length || !config.headers) {
+        return config.headers;
+      }
+      if (!this.envGroupResolver) {
+        throw new Error(`Server ${serverName} uses env groups ${config.envGroups.join(', ')} but no env group resolver is set`);
+      }
+      
+      const groupEnv = await this.envGroupResolver(config.envGroups);
+      return Object.fromEntries(Object.entries(config.headers).map(([header, value]) => [
+        header,
+        value.replace(/\$\{([^}]+)\}/g, (placeholder, name) => {
+          if (!(name in groupEnv)) {
+            throw new Error(`Header ${header} of server ${serverName} refers to ${placeholder}, which none of its env groups define`);
+          }
+          return groupEnv[name];
+        }),
+      ]));
+    }
+  
+    private async createInPageTransport(serverName: string, config: InPageServerConfig): Promise<Transport> {
+      this.setServerStatus(serverName, 'spawning');
+      const server = await config.createServer({ webContainer: this.webContainer });
+      
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      this.inPageServers.set(serverName, server);
+      
+      console.log(`Started in-page MCP server ${serverName}`);
+      return clientTransport;
+    }
+  
+    private async createRemoteTransport(serverName: string, config: RemoteServerConfig, timeoutMs: number): Promise<Transport> {
+      let url: URL;
+      if (config.port !== undefined) {
+        console.log(`Waiting for port ${config.port} of server ${serverName} to be forwarded...`);
+        const origin = await this.waitForForwardedPort(config.port, timeoutMs);
+        url = new URL(config.url, origin);
+      } else {
+        url = new URL(config.url);
+      }
+      
+      console.log(`Connecting to ${config.type} MCP server ${serverName} at ${url}`);
+      const requestInit: RequestInit = { headers: await this.resolveRemoteHeaders(serverName, config) };
+      
+      return config.type === 'sse'
+        ? new SSEClientTransport(url, { requestInit })
+        : new StreamableHTTPClientTransport(url, { requestInit });
+    }
+  
+    private waitForForwardedPort(port: number, timeoutMs: number): Promise<string> {
+      const origin = this.forwardedPorts.get(port);
+      if (origin) {
+        return Promise.resolve(origin);
+      }
+      
+      return new Promise((resolve, reject) => {
+        const onReady = (readyOrigin: string) => {
+          clearTimeout(timer);
+          resolve(readyOrigin);
+        };
+        const timer = setTimeout(() => {
+          const waiters = this.portWaiters.get(port) || [];
+          this.portWaiters.set(port, waiters.filter(waiter => waiter !== onReady));
+          reject(new Error(`Port ${port} was not forwarded within ${timeoutMs}ms`));
+        }, timeoutMs);
+        
+        this.portWaiters.set(port, [...(this.portWaiters.get(port) || []), onReady]);
+      });
+    }
+  
+    // Start a single server alongside the running ones and map what it exposes
+    async addServer(serverName: string, config: ServerConfig): Promise<void> {
+      if (this.clients.has(serverName)) {
+        throw new Error(`Server ${serverName} is already running`);
+      }
+      
+      this.serverConfigs.set(serverName, config);
+      try {
+        await this.connectToServer(serverName, config);
+        
+        const client = this.clients.get(serverName)!;
+        await this.mapServerTools(serverName, client);
+        await this.mapServerResources(serverName, client);
+        await this.mapServerPrompts(serverName, client);
+      } catch (error) {
+        // Forget the server so it isn't reported as running and a later addServer can retry it
+        this.cancelRestart(serverName);
+        await this.stopServer(serverName);
+        this.serverConfigs.delete(serverName);
+        this.removeServerMappings(serverName);
+        throw error;
+      }
+      
+      this.notifyListChanged(serverName, 'tools');
+      this.notifyListChanged(serverName, 'resources');
+      this.notifyListChanged(serverName, 'prompts');
+    }
+  
+    // Stop a single server and drop its tools, resources and prompts
+    async removeServer(serverName: string): Promise<void> {
+      this.cancelRestart(serverName);
+      await this.stopServer(serverName);
+      
+      this.serverConfigs.delete(serverName);
+      this.serverStatuses.delete(serverName);
+      this.readyAt.delete(serverName);
+      this.logLevels.delete(serverName);
+      this.removeServerMappings(serverName);
+    }
+  
+    // Drop a server's tools, resources and prompts and tell listeners
+    private removeServerMappings(serverName: string): void {
+      this.removeServerTools(serverName);
+      this.detectToolCollisions();
+      removeServerEntries(this.resourceToServerMap, serverName);
+      delete this.resourcesCache[serverName];
+      delete this.resourceTemplatesCache[serverName];
+      removeServerEntries(this.promptToServerMap, serverName);
+      delete this.promptsCache[serverName];
+      
+      this.notifyListChanged(serverName, 'tools');
+      this.notifyListChanged(serverName, 'resources');
+      this.notifyListChanged(serverName, 'prompts');
+    }
+  
+    // Restart a single server with its current configuration
+    async restartServer(serverName: string): Promise<void> {
+      const config = this.serverConfigs.get(serverName);
+      if (!config) {
+        throw new Error(`Server ${serverName} is not configured`);
+      }
+      
+      await this.removeServer(serverName);
+      await this.addServer(serverName, config);
+    }
+  
+    // Configuration a server was started with, if it is managed here
+    getServerConfig(serverName: string): ServerConfig | undefined {
+      return this.serverConfigs.get(serverName);
+    }
+  
+    getServerNames(): string[] {
+      return Array.from(this.serverConfigs.keys());
+    }
+  
+    // Close the client and transport of one server and kill its process
+    private async stopServer(serverName: string): Promise<void> {
+      const transport = this.transports.get(serverName);
+      if (transport) {
+        try {
+          await transport.close();
+        } catch (error) {
+          console.warn(`Error closing transport for server ${serverName}:`, error);
+        }
+      }
+      
+      const process = this.processes.get(serverName);
+      if (process && process.kill) {
+        try {
+          process.kill();
+        } catch (error) {
+          console.warn(`Error killing process for server ${serverName}:`, error);
+        }
+      }
+      
+      await this.closeInPageServer(serverName);
+      
+      this.clients.delete(serverName);
+      this.transports.delete(serverName);
+      this.processes.delete(serverName);
+      this.inspector.clearPending(serverName);
+    }
+  
+    private async closeInPageServer(serverName: string): Promise<void> {
+      const server = this.inPageServers.get(serverName);
+      if (!server) return;
+      
+      this.inPageServers.delete(serverName);
+      try {
+        await server.close();
+      } catch (error) {
+        console.warn(`Error closing in-page server ${serverName}:`, error);
+      }
+    }
+  
+    // React to a server process exiting on its own
+    private async handleProcessExit(serverName: string, process: ServerProcess, exitCode?: number): Promise<void> {
+      // Ignore exits of processes we stopped or already replaced
+      if (this.processes.get(serverName) !== process || !this.clients.has(serverName)) {
+        return;
+      }
+      
+      console.warn(`MCP server ${serverName} exited unexpectedly with code ${exitCode}`);
+      const crashError = new ServerCrashedError(serverName, exitCode);
+      
+      // Fail in-flight calls now instead of letting them time out
+      const calls = this.inFlightCalls.get(serverName);
+      if (calls) {
+        calls.forEach(reject => reject(crashError));
+        this.inFlightCalls.delete(serverName);
+      }
+      
+      await this.stopServer(serverName);
+      this.removeServerMappings(serverName);
+      
+      // A server that ran for a while starts over with a full set of attempts
+      const readyAt = this.readyAt.get(serverName) || 0;
+      if (Date.now() - readyAt > RESTART_ATTEMPTS_RESET_MS) {
+        this.restartAttempts.delete(serverName);
+      }
+      
+      this.scheduleRestart(serverName, crashError);
+    }
+  
+    private scheduleRestart(serverName: string, crashError: ServerCrashedError): void {
+      const config = this.serverConfigs.get(serverName);
+      if (!config) return;
+      
+      const policy = { ...DEFAULT_RESTART_POLICY, ...config.restartPolicy };
+      const attempt = (this.restartAttempts.get(serverName) || 0) + 1;
+      
+      if (attempt > policy.maxAttempts) {
+        console.error(`MCP server ${serverName} crashed and was not restarted after ${policy.maxAttempts} attempts`);
+        this.setServerStatus(serverName, 'crashed', crashError);
+        return;
+      }
+      
+      this.restartAttempts.set(serverName, attempt);
+      const delay = Math.min(policy.initialDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+      console.log(`Restarting MCP server ${serverName} in ${delay}ms (attempt ${attempt}/${policy.maxAttempts})`);
+      this.setServerStatus(serverName, 'restarting', crashError);
+      
+      const timer = setTimeout(async () => {
+        this.restartTimers.delete(serverName);
+        
+        try {
+          await this.connectToServer(serverName, config);
+          
+          const client = this.clients.get(serverName)!;
+          await this.mapServerTools(serverName, client);
+          await this.mapServerResources(serverName, client);
+          await this.mapServerPrompts(serverName, client);
+          
+          this.notifyListChanged(serverName, 'tools');
+          this.notifyListChanged(serverName, 'resources');
+          this.notifyListChanged(serverName, 'prompts');
+        } catch (error) {
+          console.warn(`Restart attempt ${attempt} for MCP server ${serverName} failed:`, error);
+          this.scheduleRestart(serverName, crashError);
+        }
+      }, delay);
+      
+      this.restartTimers.set(serverName, timer);
+    }
+  
+    private cancelRestart(serverName: string): void {
+      const timer = this.restartTimers.get(serverName);
+      if (timer) {
+        clearTimeout(timer);
+        this.restartTimers.delete(serverName);
+      }
+      this.restartAttempts.delete(serverName);
+    }
+  
+    // Map tools, resources and prompts from all servers
     async mapToolsAndResources(): Promise<void> {
-      console.log('Mapping tools and resources from all servers...');
+      console.log('Mapping tools, resources and prompts from all servers...');
       
       // Clear existing mappings
       this.toolToServerMap.clear();
+      this.qualifiedTools.clear();
+      this.toolCollisions.clear();
       this.resourceToServerMap.clear();
+      this.promptToServerMap.clear();
       
-      // Map tools from all servers
       for (const [serverName, client] of this.clients.entries()) {
-        try {
-          console.log(`Mapping tools from server ${serverName}...`);
-          const response = await client.listTools();
+        await this.mapServerTools(serverName, client);
+        await this.mapServerResources(serverName, client);
+        await this.mapServerPrompts(serverName, client);
+      }
+      
+      console.log('Mapping complete');
+    }
+  
+    // Follow nextCursor until the list is exhausted or the server's page cap is reached
+    private async fetchAllPages<T>(
+      serverName: string,
+      fetchPage: (cursor?: string) => Promise<[T[], string | undefined]>
+    ): Promise<T[]> {
+      const maxPages = this.serverConfigs.get(serverName)?.maxListPages ?? DEFAULT_MAX_LIST_PAGES;
+      const items: T[] = [];
+      let cursor: string | undefined;
+      
+      for (let page = 0; page < maxPages; page++) {
+        const [pageItems, nextCursor] = await fetchPage(cursor);
+        items.push(...pageItems);
+        if (!nextCursor) {
+          return items;
+        }
+        cursor = nextCursor;
+      }
+      
+      console.warn(`Stopped listing from server ${serverName} after ${maxPages} pages; raise maxListPages to see more`);
+      return items;
+    }
+  
+    // Map tools from a single server, replacing any previous entries for it
+    private async mapServerTools(serverName: string, client: Client): Promise<void> {
+      try {
+        console.log(`Mapping tools from server ${serverName}...`);
+        const response = {
+          tools: await this.fetchAllPages(serverName, cursor =>
+            client.listTools({ cursor }).then(page => [page.tools, page.nextCursor])),
+        };
+        
+        this.removeServerTools(serverName);
+        
+        if (response && response.tools) {
+          // Cache the tools response
+          this.toolsCache[serverName] = response;
           
-          if (response && response.tools) {
-            // Cache the tools response
-            this.toolsCache[serverName] = response;
+          // Map each tool to its server under its qualified name
+          const namespace = this.getServerNamespace(serverName);
+          for (const tool of response.tools) {
+            const qualifiedName = qualifyToolName(namespace, tool.name);
+            const owner = this.toolToServerMap.get(qualifiedName);
             
-            // Map each tool to its server
-            for (const tool of response.tools) {
-              this.toolToServerMap.set(tool.name, serverName);
+            if (owner && owner !== serverName) {
+              console.warn(`Tool ${qualifiedName} from server ${serverName} collides with server ${owner}; give one of them a different alias`);
+              continue;
+            }
+            
+            this.toolToServerMap.set(qualifiedName, serverName);
+            this.qualifiedTools.set(qualifiedName, { serverName, toolName: tool.name });
+            if (tool.outputSchema) {
+              try {
+                this.toolOutputValidators.set(
+                  qualifiedName,
+                  this.jsonSchemaValidator.getValidator(tool.outputSchema as JsonSchemaType)
+                );
+              } catch (error) {
+                console.warn(`Ignoring invalid output schema of tool ${qualifiedName}:`, error);
+              }
             }
           }
-        } catch (error) {
-          console.warn(`Error mapping tools from server ${serverName}:`, error);
         }
+      } catch (error) {
+        console.warn(`Error mapping tools from server ${serverName}:`, error);
       }
       
-      // Map resources from all servers
-      for (const [serverName, client] of this.clients.entries()) {
-        try {
-          console.log(`Mapping resources from server ${serverName}...`);
-          const response = await client.listResources();
+      this.detectToolCollisions();
+    }
+  
+    private removeServerTools(serverName: string): void {
+      removeServerEntries(this.toolToServerMap, serverName);
+      for (const [qualifiedName, entry] of this.qualifiedTools.entries()) {
+        if (entry.serverName === serverName) {
+          this.qualifiedTools.delete(qualifiedName);
+          this.toolOutputValidators.delete(qualifiedName);
+        }
+      }
+      delete this.toolsCache[serverName];
+    }
+  
+    // Record unqualified tool names that more than one server exposes
+    private detectToolCollisions(): void {
+      const serversByTool = new Map<string, string[]>();
+      
+      for (const { serverName, toolName } of this.qualifiedTools.values()) {
+        const servers = serversByTool.get(toolName) || [];
+        if (!servers.includes(serverName)) {
+          servers.push(serverName);
+        }
+        serversByTool.set(toolName, servers);
+      }
+      
+      const collisions = new Map<string, string[]>();
+      for (const [toolName, servers] of serversByTool.entries()) {
+        if (servers.length > 1) {
+          collisions.set(toolName, servers);
+          if (!this.toolCollisions.has(toolName)) {
+            console.warn(`Tool ${toolName} is exposed by multiple servers (${servers.join(', ')}); use qualified names to call it`);
+          }
+        }
+      }
+      
+      this.toolCollisions = collisions;
+    }
+  
+    private getServerNamespace(serverName: string): string {
+      return this.serverConfigs.get(serverName)?.alias || serverName;
+    }
+  
+    // Resolve a qualified (or unambiguous unqualified) tool name to its server
+    resolveTool(toolName: string): QualifiedTool {
+      const qualified = this.qualifiedTools.get(toolName);
+      if (qualified) {
+        return qualified;
+      }
+      
+      const matches = Array.from(this.qualifiedTools.entries())
+        .filter(([, entry]) => entry.toolName === toolName);
+      
+      if (matches.length === 0) {
+        throw new Error(`Tool ${toolName} is not registered`);
+      }
+      
+      if (matches.length > 1) {
+        throw new Error(`Tool ${toolName} is ambiguous; use one of: ${matches.map(([name]) => name).join(', ')}`);
+      }
+      
+      return matches[0][1];
+    }
+  
+    // Map resources from a single server, replacing any previous entries for it
+    private async mapServerResources(serverName: string, client: Client): Promise<void> {
+      try {
+        console.log(`Mapping resources from server ${serverName}...`);
+        const response = {
+          resources: await this.fetchAllPages(serverName, cursor =>
+            client.listResources({ cursor }).then(page => [page.resources, page.nextCursor])),
+        };
+        
+        removeServerEntries(this.resourceToServerMap, serverName);
+        delete this.resourcesCache[serverName];
+        
+        if (response && response.resources) {
+          // Cache the resources response
+          this.resourcesCache[serverName] = response;
           
-          if (response && response.resources) {
-            // Cache the resources response
-            this.resourcesCache[serverName] = response;
-            
-            // Map each resource to its server
-            for (const resource of response.resources) {
-              this.resourceToServerMap.set(resource.uri, serverName);
-            }
+          // Map each resource to its server
+          for (const resource of response.resources) {
+            this.resourceToServerMap.set(resource.uri, serverName);
           }
-        } catch (error) {
-          console.warn(`Error mapping resources from server ${serverName}:`, error);
         }
+      } catch (error) {
+        console.warn(`Error mapping resources from server ${serverName}:`, error);
       }
       
-      console.log('Mapping complete');
+      // Templates are optional, so a failure here leaves the static resources alone
+      try {
+        this.resourceTemplatesCache[serverName] = await this.fetchAllPages(serverName, cursor =>
+          client.listResourceTemplates({ cursor }).then(page => [page.resourceTemplates, page.nextCursor]));
+      } catch (error) {
+        delete this.resourceTemplatesCache[serverName];
+        console.warn(`Error mapping resource templates from server ${serverName}:`, error);
+      }
+    }
+  
+    // Map prompts from a single server if it advertises the prompts capability
+    private async mapServerPrompts(serverName: string, client: Client): Promise<void> {
+      if (!client.getServerCapabilities()?.prompts) {
+        return;
+      }
+      
+      try {
+        console.log(`Mapping prompts from server ${serverName}...`);
+        const response = {
+          prompts: await this.fetchAllPages(serverName, cursor =>
+            client.listPrompts({ cursor }).then(page => [page.prompts, page.nextCursor])),
+        };
+        
+        removeServerEntries(this.promptToServerMap, serverName);
+        delete this.promptsCache[serverName];
+        
+        if (response && response.prompts) {
+          // Cache the prompts response
+          this.promptsCache[serverName] = response;
+          
+          // Map each prompt to its server
+          for (const prompt of response.prompts) {
+            this.promptToServerMap.set(prompt.name, serverName);
+          }
+        }
+      } catch (error) {
+        console.warn(`Error mapping prompts from server ${serverName}:`, error);
+      }
+    }
+  
+    // Keep cached lists current when a server reports changes
+    private registerNotificationHandlers(serverName: string, client: Client): void {
+      client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        console.log(`Tool list changed on server ${serverName}`);
+        await this.mapServerTools(serverName, client);
+        this.notifyListChanged(serverName, 'tools');
+      });
+      
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+        console.log(`Resource list changed on server ${serverName}`);
+        await this.mapServerResources(serverName, client);
+        this.notifyListChanged(serverName, 'resources');
+      });
+      
+      client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+        console.log(`Prompt list changed on server ${serverName}`);
+        await this.mapServerPrompts(serverName, client);
+        this.notifyListChanged(serverName, 'prompts');
+      });
+      
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+        console.log(`Resource ${notification.params.uri} updated on server ${serverName}`);
+        this.resourceUpdatedListeners.forEach(listener => listener(notification.params.uri, serverName));
+      });
+      
+      client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+        const { level, logger, data } = notification.params;
+        this.logStore.append(serverName, {
+          level,
+          source: 'mcp',
+          logger,
+          message: typeof data === 'string' ? data : JSON.stringify(data),
+        });
+      });
+    }
+  
+    // Answer requests that servers send to the client
+    private registerRequestHandlers(serverName: string, client: Client): void {
+      client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+        console.log(`Sampling requested by server ${serverName}`);
+        if (!this.samplingHandler) {
+          throw new Error('Sampling is not available in this client');
+        }
+        return this.samplingHandler(serverName, request.params);
+      });
+      
+      client.setRequestHandler(ElicitRequestSchema, async (request) => {
+        console.log(`Elicitation requested by server ${serverName}`);
+        if (!this.elicitationHandler) {
+          throw new Error('Elicitation is not available in this client');
+        }
+        // Only form elicitation is advertised
+        if (request.params.mode === 'url') {
+          return { action: 'decline' };
+        }
+        return this.elicitationHandler(serverName, request.params);
+      });
+      
+      client.setRequestHandler(ListRootsRequestSchema, async () => {
+        return { roots: this.getServerRoots(serverName) };
+      });
+    }
+  
+    // Roots visible to a server, narrowed by its `roots` config
+    getServerRoots(serverName: string): Root[] {
+      const allowed = this.serverConfigs.get(serverName)?.roots;
+      if (!allowed) {
+        return this.roots;
+      }
+      return this.roots.filter(root => allowed.includes(root.uri) || (root.name !== undefined && allowed.includes(root.name)));
     }
   
-    // List all tools from all servers
+    // Replace the roots and tell connected servers that the list changed
+    setRoots(roots: Root[]): void {
+      if (JSON.stringify(roots) === JSON.stringify(this.roots)) {
+        return;
+      }
+      this.roots = roots;
+      
+      for (const [serverName, client] of this.clients.entries()) {
+        client.sendRootsListChanged().catch(error => {
+          console.warn(`Error sending roots list change to server ${serverName}:`, error);
+        });
+      }
+    }
+  
+    // Route sampling requests from every server through the given handler. Set it before adding
+    // servers; the capability is declared when each server connects
+    setSamplingHandler(handler: SamplingHandler | null): void {
+      this.samplingHandler = handler;
+    }
+  
+    // Route elicitation requests from every server through the given handler. Like sampling, the
+    // capability is declared when each server connects
+    setElicitationHandler(handler: ElicitationHandler | null): void {
+      this.elicitationHandler = handler;
+    }
+  
+    // Decrypt env groups referenced by stdio server configs through the given resolver
+    setEnvGroupResolver(resolver: EnvGroupResolver | null): void {
+      this.envGroupResolver = resolver;
+    }
+  
+    // Install npx-style servers through the given cache instead of letting npx download them on every boot
+    setPackageCache(cache: PackageCache | null): void {
+      this.packageCache = cache;
+    }
+  
+    // Check every tool call against the given policy; without one, every call runs
+    setToolPolicy(policy: ToolPermissionPolicy | null): void {
+      this.toolPolicy = policy;
+    }
+  
+    // Ask the user about tool calls the policy marks 'ask'; without a handler those calls are denied
+    setToolApprovalHandler(handler: ToolApprovalHandler | null): void {
+      this.toolApprovalHandler = handler;
+    }
+  
+    private notifyListChanged(serverName: string, kind: ListChangedKind): void {
+      this.listChangedListeners.forEach(listener => listener(serverName, kind));
+    }
+  
+    // Subscribe to tool/resource/prompt list changes on any server
+    onListChanged(callback: (serverName: string, kind: ListChangedKind) => void): () => void {
+      this.listChangedListeners.push(callback);
+      return () => {
+        this.listChangedListeners = this.listChangedListeners.filter(listener => listener !== callback);
+      };
+    }
+  
+    // Subscribe to content updates of resources registered with subscribeResource
+    onResourceUpdated(callback: (uri: string, serverName: string) => void): () => void {
+      this.resourceUpdatedListeners.push(callback);
+      return () => {
+        this.resourceUpdatedListeners = this.resourceUpdatedListeners.filter(listener => listener !== callback);
+      };
+    }
+  
+    private setServerStatus(serverName: string, status: ServerStartupStatus, error?: Error): void {
+      this.serverStatuses.set(serverName, status);
+      this.serverStatusListeners.forEach(listener => listener(serverName, status, error));
+    }
+  
+    // Current startup status of a server, if it has been started
+    getServerStatus(serverName: string): ServerStartupStatus | undefined {
+      return this.serverStatuses.get(serverName);
+    }
+  
+    // Subscribe to per-server startup status changes
+    onServerStatus(callback: (serverName: string, status: ServerStartupStatus, error?: Error) => void): () => void {
+      this.serverStatusListeners.push(callback);
+      return () => {
+        this.serverStatusListeners = this.serverStatusListeners.filter(listener => listener !== callback);
+      };
+    }
+
+    // Send a recorded request to its server again, e.g. from the protocol inspector
+    async replayRequest(serverName: string, request: Request): Promise<unknown> {
+      const client = this.clients.get(serverName);
+      if (!client) {
+        throw new Error(`Server ${serverName} not connected`);
+      }
+      
+      // A replayed tool call is still a tool call, so the same permissions apply
+      if (request.method === 'tools/call') {
+        const toolName = String(request.params?.name ?? '');
+        await this.authorizeToolCall(
+          qualifyToolName(this.getServerNamespace(serverName), toolName),
+          serverName,
+          toolName,
+          request.params?.arguments
+        );
+      }
+      
+      // The original progress token belonged to a call that has finished, so nothing would handle it
+      const { _meta, ...rest } = request.params ?? {};
+      const { progressToken: _progressToken, ...meta } = _meta ?? {};
+      const params = request.params && { ...rest, ...(Object.keys(meta).length > 0 && { _meta: meta }) };
+      return client.request({ method: request.method, params }, ResultSchema);
+    }
+  
+    // Ask a server to only send log messages at or above this level
+    async setServerLogLevel(serverName: string, level: LoggingLevel): Promise<void> {
+      this.logLevels.set(serverName, level);
+      
+      const client = this.clients.get(serverName);
+      if (!client) {
+        throw new Error(`Server ${serverName} not connected`);
+      }
+      if (!client.getServerCapabilities()?.logging) {
+        throw new Error(`Server ${serverName} does not support logging/setLevel`);
+      }
+      
+      await client.setLoggingLevel(level);
+    }
+  
+    getServerLogLevel(serverName: string): LoggingLevel | undefined {
+      return this.logLevels.get(serverName);
+    }
+  
+    // Whether a server accepts logging/setLevel
+    supportsLogLevel(serverName: string): boolean {
+      return !!this.clients.get(serverName)?.getServerCapabilities()?.logging;
+    }
+  
+    private async applyLogLevel(serverName: string, client: Client): Promise<void> {
+      const level = this.logLevels.get(serverName);
+      if (!level || !client.getServerCapabilities()?.logging) {
+        return;
+      }
+      
+      try {
+        await client.setLoggingLevel(level);
+      } catch (error) {
+        console.warn(`Error restoring log level for server ${serverName}:`, error);
+      }
+    }
+  
+    // List all tools from all servers, named by their qualified names
     async listAllTools(): Promise<Tool[]> {
       const allTools: Tool[] = [];
       
-      for (const cachedTools of Object.values(this.toolsCache)) {
+      for (const [serverName, cachedTools] of Object.entries(this.toolsCache)) {
         if (cachedTools && cachedTools.tools && Array.isArray(cachedTools.tools)) {
-          allTools.push(...cachedTools.tools);
+          const namespace = this.getServerNamespace(serverName);
+          for (const tool of cachedTools.tools as Tool[]) {
+            const qualifiedName = qualifyToolName(namespace, tool.name);
+            if (this.toolToServerMap.get(qualifiedName) === serverName) {
+              allTools.push({ ...tool, name: qualifiedName });
+            }
+          }
         }
       }
       
@@ -322,62 +1345,288 @@ export type ServerConfig = {
       return allResources;
     }
   
+    // List all resource templates from all servers
+    async listAllResourceTemplates(): Promise<ResourceTemplate[]> {
+      return Object.values(this.resourceTemplatesCache).flat();
+    }
+  
+    // List all prompts from all servers
+    async listAllPrompts(): Promise<Prompt[]> {
+      const allPrompts: Prompt[] = [];
+      
+      for (const cachedPrompts of Object.values(this.promptsCache)) {
+        if (cachedPrompts && cachedPrompts.prompts && Array.isArray(cachedPrompts.prompts)) {
+          allPrompts.push(...cachedPrompts.prompts);
+        }
+      }
+      
+      return allPrompts;
+    }
+  
     // Call a specific tool with arguments
-    async callTool(toolName: string, args: any): Promise<any> {
+    async callTool(toolName: string, args: any, options: ToolCallOptions = {}): Promise<CallToolResult> {
       try {
-        // Check if tool is registered
-        if (!this.toolToServerMap.has(toolName)) {
-          throw new Error(`Tool ${toolName} is not registered`);
-        }
-        
-        const serverName = this.toolToServerMap.get(toolName)!;
+        // Resolve the qualified name to the owning server and original tool name
+        const { serverName, toolName: serverToolName } = this.resolveTool(toolName);
         const client = this.clients.get(serverName);
         
         if (!client) {
           throw new Error(`Server ${serverName} not connected`);
         }
         
+        await this.authorizeToolCall(toolName, serverName, serverToolName, args, options);
+        
         // Format args for MCP SDK
         const formattedArgs = {
-          name: toolName,
+          name: serverToolName,
           arguments: args
         };
         
-        // Call the tool on the appropriate client
-        return await client.callTool(formattedArgs);
+        // Call the tool on the appropriate client, failing fast if the server crashes
+        const result = await new Promise<CallToolResult>((resolve, reject) => {
+          const calls = this.inFlightCalls.get(serverName) || new Set();
+          this.inFlightCalls.set(serverName, calls);
+          calls.add(reject);
+          
+          // Sent as a plain request because the client only keeps output validators for the
+          // last page of tools/list; ours cover every page. Passing onprogress makes the SDK
+          // attach a progress token to the request
+          client.request({ method: 'tools/call', params: formattedArgs }, CallToolResultSchema, {
+            onprogress: options.onProgress,
+            signal: options.signal,
+            timeout: options.timeoutMs ?? DEFAULT_TOOL_CALL_TIMEOUT_MS,
+            resetTimeoutOnProgress: true,
+          })
+            .then(resolve, reject)
+            .finally(() => calls.delete(reject));
+        });
+        
+        this.validateToolOutput(qualifyToolName(this.getServerNamespace(serverName), serverToolName), result);
+        return result;
       } catch (error) {
         console.error(`Error calling tool ${toolName}:`, error);
         throw error;
       }
     }
   
+    // Throw a ToolCallDeniedError unless the policy, or the user when it asks, lets the call run
+    private async authorizeToolCall(
+      qualifiedName: string,
+      serverName: string,
+      toolName: string,
+      args: any,
+      options: ToolCallOptions = {}
+    ): Promise<void> {
+      const policy = this.toolPolicy;
+      if (!policy) {
+        return;
+      }
+      
+      const tool = (this.toolsCache[serverName]?.tools as Tool[] | undefined)?.find(candidate => candidate.name === toolName);
+      const permission = policy.resolve(serverName, toolName, tool);
+      if (permission === 'allow') {
+        return;
+      }
+      if (permission === 'deny') {
+        throw new ToolCallDeniedError(qualifiedName, 'denied by tool permissions');
+      }
+      if (!this.toolApprovalHandler) {
+        throw new ToolCallDeniedError(qualifiedName, 'it needs approval and no one is available to approve it');
+      }
+      
+      const decision = await this.requestToolApproval(
+        this.toolApprovalHandler,
+        { serverName, toolName, qualifiedName, arguments: args ?? {}, tool },
+        options
+      );
+      if (decision === 'deny') {
+        throw new ToolCallDeniedError(qualifiedName, 'denied by the user');
+      }
+      if (decision === 'always-allow') {
+        policy.setRule({ server: serverName, tool: toolName, permission: 'allow' });
+      }
+    }
+  
+    // Wait for the handler's answer, giving up when the call is aborted or its timeout passes first
+    private requestToolApproval(
+      handler: ToolApprovalHandler,
+      request: ToolApprovalRequest,
+      options: ToolCallOptions
+    ): Promise<ToolApprovalDecision> {
+      const timeoutMs = options.timeoutMs ?? DEFAULT_TOOL_CALL_TIMEOUT_MS;
+      const withdraw = new AbortController();
+      
+      return new Promise<ToolApprovalDecision>((resolve, reject) => {
+        const giveUp = (reason: string) => {
+          withdraw.abort();
+          reject(new ToolCallDeniedError(request.qualifiedName, reason));
+        };
+        const onAbort = () => giveUp('the call was cancelled while waiting for approval');
+        if (options.signal?.aborted) {
+          onAbort();
+          return;
+        }
+        const timer = setTimeout(() => giveUp(`no one approved it within ${timeoutMs}ms`), timeoutMs);
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+        
+        handler(request, withdraw.signal)
+          .then(resolve, reject)
+          .finally(() => {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+          });
+      });
+    }
+  
+    // Call a tool whose output shape is known and return its structuredContent
+    async callToolStructured<T = Record<string, unknown>>(
+      toolName: string,
+      args: any,
+      options: StructuredToolCallOptions<T> = {}
+    ): Promise<T> {
+      const { schema, ...callOptions } = options;
+      const result = await this.callTool(toolName, args, callOptions);
+      return getStructuredContent(toolName, result, schema);
+    }
+  
+    // Check structuredContent against the outputSchema the tool declared, if any
+    private validateToolOutput(qualifiedName: string, result: CallToolResult): void {
+      const validator = this.toolOutputValidators.get(qualifiedName);
+      if (!validator || result.isError) {
+        return;
+      }
+      
+      if (!result.structuredContent) {
+        throw new ToolOutputValidationError(qualifiedName, 'the tool declares an output schema but returned no structured content', result);
+      }
+      
+      const validation = validator(result.structuredContent);
+      if (!validation.valid) {
+        throw new ToolOutputValidationError(qualifiedName, validation.errorMessage, result);
+      }
+    }
+  
     // Read a resource by URI
     async readResource(resourceUri: string): Promise<ReadResourceResult> {
       try {
-        // Check if resource is registered
-        if (!this.resourceToServerMap.has(resourceUri)) {
-          throw new Error(`Resource ${resourceUri} is not registered`);
+        const client = this.getResourceClient(resourceUri);
+        
+        // Read the resource
+        return await client.readResource({ uri: resourceUri }) as unknown as ReadResourceResult;
+      } catch (error) {
+        console.error(`Error reading resource ${resourceUri}:`, error);
+        throw error;
+      }
+    }
+  
+    // Ask the owning server for values completing a prompt argument or template variable
+    async completeArgument(
+      ref: CompletionRef,
+      argumentName: string,
+      value: string,
+      context?: Record<string, string>
+    ): Promise<string[]> {
+      const serverName = ref.type === 'ref/prompt'
+        ? this.promptToServerMap.get(ref.name)
+        : Object.keys(this.resourceTemplatesCache).find(name =>
+            this.resourceTemplatesCache[name].some(template => template.uriTemplate === ref.uri));
+      const client = serverName ? this.clients.get(serverName) : undefined;
+      
+      // Servers without the completions capability simply offer nothing
+      if (!client?.getServerCapabilities()?.completions) {
+        return [];
+      }
+      
+      const result = await client.complete({
+        ref,
+        argument: { name: argumentName, value },
+        context: context ? { arguments: context } : undefined,
+      });
+      return result.completion.values;
+    }
+  
+    // Render a prompt with the given arguments
+    async getPrompt(promptName: string, args?: Record<string, string>): Promise<GetPromptResult> {
+      try {
+        // Check if prompt is registered
+        if (!this.promptToServerMap.has(promptName)) {
+          throw new Error(`Prompt ${promptName} is not registered`);
         }
         
-        const serverName = this.resourceToServerMap.get(resourceUri)!;
+        const serverName = this.promptToServerMap.get(promptName)!;
         const client = this.clients.get(serverName);
         
         if (!client) {
           throw new Error(`Server ${serverName} not connected`);
         }
         
-        // Read the resource
-        return await client.readResource({ uri: resourceUri }) as unknown as ReadResourceResult;
+        // Render the prompt on the appropriate client
+        return await client.getPrompt({ name: promptName, arguments: args });
       } catch (error) {
-        console.error(`Error reading resource ${resourceUri}:`, error);
+        console.error(`Error getting prompt ${promptName}:`, error);
         throw error;
       }
     }
   
+    // Ask the owning server to send update notifications for a resource
+    async subscribeResource(resourceUri: string): Promise<void> {
+      const client = this.getResourceClient(resourceUri);
+      
+      if (!client.getServerCapabilities()?.resources?.subscribe) {
+        throw new Error(`Server for resource ${resourceUri} does not support subscriptions`);
+      }
+      
+      await client.subscribeResource({ uri: resourceUri });
+    }
+  
+    // Stop update notifications for a resource
+    async unsubscribeResource(resourceUri: string): Promise<void> {
+      const client = this.getResourceClient(resourceUri);
+      
+      if (!client.getServerCapabilities()?.resources?.subscribe) {
+        return;
+      }
+      
+      await client.unsubscribeResource({ uri: resourceUri });
+    }
+  
+    // Find the server that owns a URI, either listed directly or produced by one of its templates
+    private resolveResourceServer(resourceUri: string): string {
+      const serverName = this.resourceToServerMap.get(resourceUri);
+      if (serverName) {
+        return serverName;
+      }
+      
+      for (const [templateServer, templates] of Object.entries(this.resourceTemplatesCache)) {
+        if (templates.some(template => new UriTemplate(template.uriTemplate).match(resourceUri))) {
+          return templateServer;
+        }
+      }
+      
+      throw new Error(`Resource ${resourceUri} is not registered`);
+    }
+  
+    private getResourceClient(resourceUri: string): Client {
+      const serverName = this.resolveResourceServer(resourceUri);
+      const client = this.clients.get(serverName);
+      
+      if (!client) {
+        throw new Error(`Server ${serverName} not connected`);
+      }
+      
+      return client;
+    }
+  
     // Disconnect from all servers
     async disconnectAll(): Promise<void> {
       // console.log('Disconnecting from all servers...');
       
+      // Stop any pending crash restarts
+      for (const serverName of Array.from(this.restartTimers.keys())) {
+        this.cancelRestart(serverName);
+      }
+      this.restartAttempts.clear();
+      
       // Close all transports
       for (const [serverName, transport] of this.transports.entries()) {
         try {
@@ -400,12 +1649,31 @@ export type ServerConfig = {
         }
       }
       
+      // Close all in-page servers
+      for (const serverName of Array.from(this.inPageServers.keys())) {
+        await this.closeInPageServer(serverName);
+      }
+      
       // Clear all maps
       this.clients.clear();
       this.transports.clear();
       this.processes.clear();
+      this.serverStatuses.clear();
+      this.logLevels.clear();
+      this.logStore.clear();
+      this.inspector.clear();
+      this.readyAt.clear();
+      this.inFlightCalls.clear();
       this.toolToServerMap.clear();
+      this.qualifiedTools.clear();
+      this.toolCollisions.clear();
       this.resourceToServerMap.clear();
+      this.promptToServerMap.clear();
+      this.toolsCache = {};
+      this.toolOutputValidators.clear();
+      this.resourcesCache = {};
+      this.resourceTemplatesCache = {};
+      this.promptsCache = {};
       
       this.isInitialized = false;
     }
@@ -413,20 +1681,28 @@ export type ServerConfig = {
 
 
 
+// Remove every entry that points at the given server
+function removeServerEntries(map: Map<string, string>, serverName: string): void {
+    for (const [key, owner] of map.entries()) {
+      if (owner === serverName) {
+        map.delete(key);
+      }
+    }
+  }
+
 // Start a server process with the given configuration
 async function startServerProcess(
     container: WebContainer,
-    config: ServerConfig,
-    serverName: string
+    config: StdioServerConfig,
+    serverName: string,
+    env: Record<string, string>
   ): Promise<ServerProcess> {
     try {
       console.log(`Starting server process for ${serverName}...`);
       console.log(`Command: ${config.command} ${config.args.join(' ')}`);
       
       // Use the correct spawn method signature
-      const process = await container.spawn(config.command, config.args, {
-        env: config.env || {},
-      });
+      const process = await container.spawn(config.command, config.args, { env });
       
       console.log(`Server process for ${serverName} started`);
       
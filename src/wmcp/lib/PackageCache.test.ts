@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { WebContainer } from '@webcontainer/api';
+import { CachedSnapshot, PackageCache, SnapshotStore, isPinnedVersion, parseNpxCommand } from './PackageCache';
+
+const encode = (files: Record<string, string>) => new TextEncoder().encode(JSON.stringify(files));
+
+// A package directory as a snapshot of it would hold
+function packageFiles(version: string): Record<string, string> {
+  return { 'node_modules/some-server/package.json': JSON.stringify({ name: 'some-server', version, bin: 'cli.js' }) };
+}
+
+// Files live in a map; snapshots are JSON of the files under a directory and npm installs `registryVersion`
+function createFakeContainer(registryVersion: string) {
+  const files = new Map<string, string>();
+  const spawn = vi.fn(async (_command: string, _args: string[], options: { cwd: string }) => {
+    for (const [path, content] of Object.entries(packageFiles(registryVersion))) {
+      files.set(`${options.cwd}/${path}`, content);
+    }
+    return { exit: Promise.resolve(0) };
+  });
+  const container = {
+    workdir: '/home/project',
+    fs: {
+      readFile: async (path: string) => {
+        if (!files.has(path)) throw new Error(`ENOENT: ${path}`);
+        return files.get(path);
+      },
+      writeFile: async (path: string, content: string) => {
+        files.set(path, content);
+      },
+      mkdir: async () => undefined,
+    },
+    mount: async (snapshot: Uint8Array, options: { mountPoint: string }) => {
+      for (const [path, content] of Object.entries(JSON.parse(new TextDecoder().decode(snapshot)))) {
+        files.set(`${options.mountPoint}/${path}`, content as string);
+      }
+    },
+    export: async (dir: string) => encode(Object.fromEntries(
+      [...files].filter(([path]) => path.startsWith(`${dir}/`)).map(([path, content]) => [path.slice(dir.length + 1), content])
+    )),
+    spawn,
+  };
+  return { container: container as unknown as WebContainer, spawn };
+}
+
+function createFakeStore(entries: CachedSnapshot[] = []) {
+  const snapshots = new Map(entries.map(entry => [entry.id, entry]));
+  const store: SnapshotStore = {
+    read: async (id) => snapshots.get(id),
+    write: async (entry) => {
+      snapshots.set(entry.id, entry);
+    },
+    clear: async () => snapshots.clear(),
+  };
+  return { store, snapshots };
+}
+
+const npxConfig = (spec: string) => ({ command: 'npx', args: ['-y', spec, '--stdio'] });
+
+describe('parseNpxCommand', () => {
+  it('should split the package from the server arguments', () => {
+    expect(parseNpxCommand({ command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', '/project'] })).toEqual({
+      name: '@modelcontextprotocol/server-filesystem',
+      range: 'latest',
+      serverArgs: ['/project']
+    });
+    expect(parseNpxCommand({ command: 'npx', args: ['--yes', 'some-server@^2.1.0'] })).toEqual({
+      name: 'some-server',
+      range: '^2.1.0',
+      serverArgs: []
+    });
+  });
+
+  it('should leave other commands to npx or the shell', () => {
+    expect(parseNpxCommand({ command: 'node', args: ['server.js'] })).toBeNull();
+    expect(parseNpxCommand({ command: 'npx', args: ['-y', './local-server'] })).toBeNull();
+    expect(parseNpxCommand({ command: 'npx', args: ['-p', 'tools', 'run-tool'] })).toBeNull();
+    expect(parseNpxCommand({ command: 'npx', args: ['github:owner/repo'] })).toBeNull();
+  });
+});
+
+describe('isPinnedVersion', () => {
+  it('should only treat exact versions as pinned', () => {
+    expect(isPinnedVersion('1.2.3')).toBe(true);
+    expect(isPinnedVersion('1.0.0-beta.1')).toBe(true);
+    expect(isPinnedVersion('latest')).toBe(false);
+    expect(isPinnedVersion('^1.2.3')).toBe(false);
+  });
+});
+
+describe('PackageCache', () => {
+  it('should run a fresh snapshot without installing', async () => {
+    const { container, spawn } = createFakeContainer('1.3.0');
+    const { store } = createFakeStore([
+      { id: 'npx:some-server@^1.0.0', version: '1.2.0', snapshot: encode(packageFiles('1.2.0')), savedAt: Date.now() },
+    ]);
+
+    const config = await new PackageCache({ store }).prepareServer(container, npxConfig('some-server@^1.0.0'));
+
+    expect(spawn).not.toHaveBeenCalled();
+    expect(config).toEqual({
+      command: 'node',
+      args: ['/home/project/.mcp-packages/some-server@_1.0.0/node_modules/some-server/cli.js', '--stdio'],
+    });
+  });
+
+  it('should reinstall an expired snapshot and record the version npm installed', async () => {
+    const { container, spawn } = createFakeContainer('1.3.0');
+    const { store, snapshots } = createFakeStore([
+      { id: 'npx:some-server@^1.0.0', version: '1.2.0', snapshot: encode(packageFiles('1.2.0')), savedAt: 0 },
+    ]);
+
+    await new PackageCache({ store, maxAgeMs: 1000 }).prepareServer(container, npxConfig('some-server@^1.0.0'));
+
+    expect(spawn).toHaveBeenCalledTimes(1);
+    expect(snapshots.get('npx:some-server@^1.0.0')?.version).toBe('1.3.0');
+  });
+
+  it('should reinstall when the snapshot holds a different version', async () => {
+    const { container, spawn } = createFakeContainer('2.0.0');
+    const { store, snapshots } = createFakeStore([
+      // Pinned versions never expire, but this snapshot was saved for another version
+      { id: 'npx:some-server@2.0.0', version: '2.0.0', snapshot: encode(packageFiles('1.9.0')), savedAt: 0 },
+    ]);
+
+    await new PackageCache({ store }).prepareServer(container, npxConfig('some-server@2.0.0'));
+
+    expect(spawn).toHaveBeenCalledTimes(1);
+    const saved = JSON.parse(new TextDecoder().decode(snapshots.get('npx:some-server@2.0.0')!.snapshot));
+    expect(JSON.parse(saved['node_modules/some-server/package.json']).version).toBe('2.0.0');
+  });
+
+  it('should keep snapshots of different ranges apart', async () => {
+    const { container } = createFakeContainer('1.3.0');
+    const { store, snapshots } = createFakeStore();
+    const cache = new PackageCache({ store });
+
+    await cache.prepareServer(container, npxConfig('some-server@^1.0.0'));
+    await cache.prepareServer(container, npxConfig('some-server'));
+
+    expect([...snapshots.keys()]).toEqual(['npx:some-server@^1.0.0', 'npx:some-server@latest']);
+  });
+});
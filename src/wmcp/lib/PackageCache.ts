@@ -0,0 +1,275 @@
+import type { WebContainer } from '@webcontainer/api';
+import type { StdioServerConfig } from './McpClientManager';
+
+export const PACKAGE_CACHE_DB_NAME = 'wmcp-package-cache';
+
+// Unpinned npx packages (e.g. `latest` or `^1.0.0`) are reinstalled after this long so updates are picked up
+export const DEFAULT_PACKAGE_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Where npx-style servers are installed, relative to the WebContainer workdir
+export const SERVER_PACKAGES_DIR = '.mcp-packages';
+
+const SNAPSHOT_STORE = 'snapshots';
+const PROJECT_SNAPSHOT_ID = 'project';
+const PROJECT_LOCK_FILES = ['pnpm-lock.yaml', 'package-lock.json', 'yarn.lock'];
+
+export type CachedSnapshot = {
+    // `project` for the mounted package.json, `npx:<name>@<range>` for a server package
+    id: string;
+    // A fingerprint of package.json and its lock file, or the version npm installed for a server package
+    version: string;
+    snapshot: Uint8Array;
+    savedAt: number;
+};
+
+// Where snapshots are kept; IndexedDB unless another store is passed in
+export interface SnapshotStore {
+    read(id: string): Promise<CachedSnapshot | undefined>;
+    write(entry: CachedSnapshot): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export type PackageCacheOptions = {
+    dbName?: string;
+    maxAgeMs?: number;
+    store?: SnapshotStore;
+};
+
+export type NpxPackageSpec = {
+    name: string;
+    // Version or range after the `@`, `latest` when there is none
+    range: string;
+    // Arguments for the server itself, after the package
+    serverArgs: string[];
+};
+
+/**
+ * Split `npx -y @scope/pkg@1.2.3 --flag` into the package and the server's own arguments. Returns
+ * null for anything npx would not resolve from the registry by name, such as paths, git URLs and
+ * `--package`/`--call` invocations.
+ */
+export function parseNpxCommand(config: StdioServerConfig): NpxPackageSpec | null {
+    if (config.command !== 'npx') {
+        return null;
+    }
+    const index = config.args.findIndex(arg => !arg.startsWith('-'));
+    if (index === -1) {
+        return null;
+    }
+    const npxFlags = config.args.slice(0, index);
+    if (npxFlags.some(flag => flag === '-p' || flag.startsWith('--package') || flag === '-c' || flag.startsWith('--call'))) {
+        return null;
+    }
+
+    const spec = config.args[index];
+    const versionAt = spec.indexOf('@', 1);
+    const name = versionAt === -1 ? spec : spec.slice(0, versionAt);
+    const range = versionAt === -1 ? 'latest' : spec.slice(versionAt + 1);
+    if (!/^(@[\w.-]+\/)?[\w.-]+$/.test(name) || !range) {
+        return null;
+    }
+    return { name, range, serverArgs: config.args.slice(index + 1) };
+}
+
+// Exact versions never change, so their snapshots don't expire
+export function isPinnedVersion(range: string): boolean {
+    return /^\d+\.\d+\.\d+(-[\w.]+)?$/.test(range);
+}
+
+async function sha256(text: string): Promise<string> {
+    const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openSnapshotDB(dbName: string): Promise<IDBDatabase> {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+    };
+    return requestResult(request);
+}
+
+class IndexedDBSnapshotStore implements SnapshotStore {
+    private db: Promise<IDBDatabase> | null = null;
+
+    constructor(private dbName: string) {}
+
+    async read(id: string): Promise<CachedSnapshot | undefined> {
+        const db = await this.openDB();
+        return requestResult(db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).get(id));
+    }
+
+    async write(entry: CachedSnapshot): Promise<void> {
+        const db = await this.openDB();
+        await requestResult(db.transaction(SNAPSHOT_STORE, 'readwrite').objectStore(SNAPSHOT_STORE).put(entry));
+    }
+
+    async clear(): Promise<void> {
+        const db = await this.openDB();
+        await requestResult(db.transaction(SNAPSHOT_STORE, 'readwrite').objectStore(SNAPSHOT_STORE).clear());
+    }
+
+    private openDB(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = openSnapshotDB(this.dbName).catch((error) => {
+                this.db = null;
+                throw error;
+            });
+        }
+        return this.db;
+    }
+}
+
+// The version npm actually installed, which for a range can differ from one install to the next
+async function readInstalledVersion(container: WebContainer, dir: string, name: string): Promise<string> {
+    const manifest = JSON.parse(await container.fs.readFile(`${dir}/node_modules/${name}/package.json`, 'utf-8'));
+    return manifest.version;
+}
+
+// The file npx would run for a package installed under `dir`
+async function resolveBinPath(container: WebContainer, dir: string, name: string): Promise<string> {
+    const packageDir = `${dir}/node_modules/${name}`;
+    const manifest = JSON.parse(await container.fs.readFile(`${packageDir}/package.json`, 'utf-8'));
+    const bins: Record<string, string> = typeof manifest.bin === 'string'
+        ? { [name.split('/').pop()!]: manifest.bin }
+        : manifest.bin ?? {};
+    const binNames = Object.keys(bins);
+    const bin = binNames.length === 1 ? bins[binNames[0]] : bins[name.split('/').pop()!];
+    if (!bin) {
+        throw new Error(`${name} does not declare a bin to run`);
+    }
+    return `${container.workdir}/${packageDir}/${bin.replace(/^\.\//, '')}`;
+}
+
+/**
+ * Snapshots installed packages from a WebContainer into IndexedDB and mounts them again on the
+ * next boot, so servers don't download and install their packages on every page load.
+ */
+export class PackageCache {
+    // Installs started in each WebContainer, by `name@range`; each resolves to the bin to run
+    private installs: WeakMap<WebContainer, Map<string, Promise<string>>> = new WeakMap();
+    private maxAgeMs: number;
+    private store: SnapshotStore;
+
+    constructor(options: PackageCacheOptions = {}) {
+        this.maxAgeMs = options.maxAgeMs ?? DEFAULT_PACKAGE_CACHE_MAX_AGE_MS;
+        this.store = options.store ?? new IndexedDBSnapshotStore(options.dbName ?? PACKAGE_CACHE_DB_NAME);
+    }
+
+    /**
+     * Mount the node_modules saved for the current package.json and lock file. Returns false when
+     * there is no snapshot for them and an install is needed.
+     */
+    async restoreProjectDependencies(container: WebContainer): Promise<boolean> {
+        const version = await this.projectFingerprint(container);
+        const cached = version ? await this.store.read(PROJECT_SNAPSHOT_ID) : undefined;
+        if (!cached || cached.version !== version) {
+            return false;
+        }
+        await container.mount(cached.snapshot, { mountPoint: 'node_modules' });
+        return true;
+    }
+
+    // Call after installing the mounted package.json
+    async saveProjectDependencies(container: WebContainer): Promise<void> {
+        const version = await this.projectFingerprint(container);
+        if (!version) {
+            return;
+        }
+        const snapshot = await container.export('node_modules', { format: 'binary' });
+        await this.store.write({ id: PROJECT_SNAPSHOT_ID, version, snapshot, savedAt: Date.now() });
+    }
+
+    /**
+     * Install an npx-style server's package from the cache (or the registry, the first time) and
+     * return a config that runs its bin with node. Other configs are returned unchanged.
+     */
+    async prepareServer(container: WebContainer, config: StdioServerConfig): Promise<StdioServerConfig> {
+        const spec = parseNpxCommand(config);
+        if (!spec) {
+            return config;
+        }
+
+        let installs = this.installs.get(container);
+        if (!installs) {
+            installs = new Map();
+            this.installs.set(container, installs);
+        }
+        const key = `${spec.name}@${spec.range}`;
+        if (!installs.has(key)) {
+            const containerInstalls = installs;
+            containerInstalls.set(key, this.installServerPackage(container, spec).catch((error) => {
+                containerInstalls.delete(key);
+                throw error;
+            }));
+        }
+
+        const binPath = await installs.get(key)!;
+        return { ...config, command: 'node', args: [binPath, ...spec.serverArgs] };
+    }
+
+    // Drop every snapshot, e.g. when the cache holds a broken install
+    async clear(): Promise<void> {
+        await this.store.clear();
+    }
+
+    private async installServerPackage(container: WebContainer, spec: NpxPackageSpec): Promise<string> {
+        const dir = `${SERVER_PACKAGES_DIR}/${spec.name.replace(/^@/, '').replace(/\//g, '__')}@${spec.range.replace(/[^\w.-]/g, '_')}`;
+        const id = `npx:${spec.name}@${spec.range}`;
+
+        const cached = await this.store.read(id);
+        const isFresh = !!cached && (isPinnedVersion(spec.range)
+            ? cached.version === spec.range
+            : Date.now() - cached.savedAt < this.maxAgeMs);
+        if (cached && isFresh) {
+            try {
+                await container.mount(cached.snapshot, { mountPoint: dir });
+                const installed = await readInstalledVersion(container, dir, spec.name);
+                if (installed !== cached.version) {
+                    throw new Error(`snapshot holds ${installed} instead of ${cached.version}`);
+                }
+                return await resolveBinPath(container, dir, spec.name);
+            } catch (error) {
+                console.warn(`Cached ${spec.name}@${spec.range} is unusable, reinstalling`, error);
+            }
+        }
+
+        console.log(`Installing ${spec.name}@${spec.range} into ${dir}...`);
+        await container.fs.mkdir(dir, { recursive: true });
+        await container.fs.writeFile(`${dir}/package.json`, JSON.stringify({ private: true, dependencies: { [spec.name]: spec.range } }, null, 2));
+        const install = await container.spawn('npm', ['install', '--no-audit', '--no-fund', '--omit=dev'], { cwd: dir, output: false });
+        const exitCode = await install.exit;
+        if (exitCode !== 0) {
+            throw new Error(`npm install ${spec.name}@${spec.range} exited with code ${exitCode}`);
+        }
+
+        const binPath = await resolveBinPath(container, dir, spec.name);
+        const version = await readInstalledVersion(container, dir, spec.name);
+        const snapshot = await container.export(dir, { format: 'binary' });
+        await this.store.write({ id, version, snapshot, savedAt: Date.now() });
+        return binPath;
+    }
+
+    // Changes whenever package.json or its lock file does; null without a package.json
+    private async projectFingerprint(container: WebContainer): Promise<string | null> {
+        const contents: string[] = [];
+        for (const file of ['package.json', ...PROJECT_LOCK_FILES]) {
+            try {
+                contents.push(`${file}\n${await container.fs.readFile(file, 'utf-8')}`);
+            } catch {
+                if (file === 'package.json') {
+                    return null;
+                }
+            }
+        }
+        return sha256(contents.join('\n'));
+    }
+
+}
@@ -0,0 +1,157 @@
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage, MessageExtraInfo } from '@modelcontextprotocol/sdk/types.js';
+
+// 'outgoing' is client -> server, 'incoming' is server -> client
+export type TrafficDirection = 'outgoing' | 'incoming';
+export type TrafficKind = 'request' | 'response' | 'error' | 'notification';
+
+export type TrafficEntry = {
+    id: number;
+    serverName: string;
+    direction: TrafficDirection;
+    kind: TrafficKind;
+    // Method of the request or notification, or of the request a response answers
+    method?: string;
+    // JSON-RPC id of requests, responses and errors
+    messageId?: string | number;
+    timestamp: number;
+    // Time between a request and its response, set on the response
+    latencyMs?: number;
+    message: JSONRPCMessage;
+};
+
+// Oldest entries are dropped once this many messages are recorded
+export const DEFAULT_MAX_TRAFFIC_ENTRIES = 1000;
+
+// Requests that never get a response are forgotten, oldest first, beyond this many
+export const MAX_PENDING_REQUESTS = 1000;
+
+export function classifyMessage(message: JSONRPCMessage): TrafficKind {
+    if ('method' in message) {
+        return 'id' in message ? 'request' : 'notification';
+    }
+    return 'error' in message ? 'error' : 'response';
+}
+
+// Ring buffer of the JSON-RPC messages exchanged with every server
+export class ProtocolInspector {
+    private entries: TrafficEntry[] = [];
+    // Requests awaiting a response, keyed by server, direction and id
+    private pendingRequests: Map<string, { method: string; timestamp: number }> = new Map();
+    private listeners: Array<(entry: TrafficEntry) => void> = [];
+    private nextId = 1;
+
+    constructor(private maxEntries: number = DEFAULT_MAX_TRAFFIC_ENTRIES) {}
+
+    record(serverName: string, direction: TrafficDirection, message: JSONRPCMessage): void {
+        const kind = classifyMessage(message);
+        const messageId = 'id' in message ? message.id : undefined;
+        const timestamp = Date.now();
+        const entry: TrafficEntry = { id: this.nextId++, serverName, direction, kind, messageId, timestamp, message };
+
+        if (kind === 'request' || kind === 'notification') {
+            entry.method = (message as { method: string }).method;
+        }
+
+        if (kind === 'request') {
+            this.pendingRequests.set(`${serverName}:${direction}:${messageId}`, { method: entry.method!, timestamp });
+            if (this.pendingRequests.size > MAX_PENDING_REQUESTS) {
+                // Maps iterate in insertion order, so the first key is the oldest request
+                this.pendingRequests.delete(this.pendingRequests.keys().next().value!);
+            }
+        } else if (kind === 'response' || kind === 'error') {
+            // A response travels the opposite way from the request it answers
+            const requestDirection = direction === 'incoming' ? 'outgoing' : 'incoming';
+            const key = `${serverName}:${requestDirection}:${messageId}`;
+            const request = this.pendingRequests.get(key);
+            if (request) {
+                entry.method = request.method;
+                entry.latencyMs = timestamp - request.timestamp;
+                this.pendingRequests.delete(key);
+            }
+        }
+
+        this.entries.push(entry);
+        if (this.entries.length > this.maxEntries) {
+            this.entries.splice(0, this.entries.length - this.maxEntries);
+        }
+        this.listeners.forEach(listener => listener(entry));
+    }
+
+    getEntries(serverName?: string): TrafficEntry[] {
+        return serverName ? this.entries.filter(entry => entry.serverName === serverName) : [...this.entries];
+    }
+
+    // Drop one server's traffic, or everything when no name is given
+    clear(serverName?: string): void {
+        if (serverName) {
+            this.entries = this.entries.filter(entry => entry.serverName !== serverName);
+            this.clearPending(serverName);
+        } else {
+            this.entries = [];
+            this.pendingRequests.clear();
+        }
+    }
+
+    // Forget a server's unanswered requests, e.g. once it stops; its ids start over on restart
+    clearPending(serverName: string): void {
+        for (const key of this.pendingRequests.keys()) {
+            if (key.startsWith(`${serverName}:`)) {
+                this.pendingRequests.delete(key);
+            }
+        }
+    }
+
+    // Recorded session as JSON, suitable for saving to a file
+    exportSession(serverName?: string): string {
+        return JSON.stringify({ exportedAt: new Date().toISOString(), entries: this.getEntries(serverName) }, null, 2);
+    }
+
+    // Subscribe to new entries; returns an unsubscribe function
+    onEntry(callback: (entry: TrafficEntry) => void): () => void {
+        this.listeners.push(callback);
+        return () => {
+            this.listeners = this.listeners.filter(listener => listener !== callback);
+        };
+    }
+}
+
+// Wraps a transport so every message in either direction is reported before it is passed on
+export class RecordingTransport implements Transport {
+    onclose?: () => void;
+    onerror?: (error: Error) => void;
+    onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+    constructor(
+        private inner: Transport,
+        private onTraffic: (direction: TrafficDirection, message: JSONRPCMessage) => void
+    ) {
+        inner.onmessage = (message: JSONRPCMessage, extra?: MessageExtraInfo) => {
+            this.onTraffic('incoming', message);
+            this.onmessage?.(message, extra);
+        };
+        inner.onclose = () => this.onclose?.();
+        inner.onerror = (error) => this.onerror?.(error);
+    }
+
+    get sessionId(): string | undefined {
+        return this.inner.sessionId;
+    }
+
+    setProtocolVersion = (version: string): void => {
+        this.inner.setProtocolVersion?.(version);
+    };
+
+    start(): Promise<void> {
+        return this.inner.start();
+    }
+
+    async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+        this.onTraffic('outgoing', message);
+        return this.inner.send(message, options);
+    }
+
+    close(): Promise<void> {
+        return this.inner.close();
+    }
+}
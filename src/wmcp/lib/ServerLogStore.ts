@@ -0,0 +1,81 @@
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+// Severity order of the MCP (syslog) logging levels, least severe first
+export const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// Oldest entries are dropped once a server has logged this many
+export const DEFAULT_MAX_LOG_ENTRIES = 500;
+
+export type ServerLogEntry = {
+    id: number;
+    serverName: string;
+    timestamp: number;
+    level: LoggingLevel;
+    // 'stderr' for process output, 'mcp' for notifications/message
+    source: 'stderr' | 'mcp';
+    // Logger name the server attached to a notifications/message, if any
+    logger?: string;
+    message: string;
+};
+
+// Markers of severity in plain process output, most severe first
+const STDERR_LEVEL_PATTERNS: Array<[RegExp, LoggingLevel]> = [
+    [/\b(fatal|panic|critical)\b/i, 'critical'],
+    [/\b(error|err!)(?![\w])|exception\b|^\s+at\s/im, 'error'],
+    [/\bwarn(ing)?\b/i, 'warning'],
+    [/\b(debug|trace|verbose)\b/i, 'debug'],
+];
+
+// Guess the level of stderr text, which servers use for all of their logging, not just errors
+export function inferStderrLevel(text: string): LoggingLevel {
+    return STDERR_LEVEL_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'info';
+}
+
+// Whether an entry is at least as severe as the given level
+export function isAtLeastLevel(level: LoggingLevel, minimum: LoggingLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+// Bounded in-memory log of what each MCP server printed or reported
+export class ServerLogStore {
+    private entries: Map<string, ServerLogEntry[]> = new Map();
+    private listeners: Array<(entry: ServerLogEntry) => void> = [];
+    private nextId = 1;
+
+    constructor(private maxEntriesPerServer: number = DEFAULT_MAX_LOG_ENTRIES) {}
+
+    append(serverName: string, entry: Omit<ServerLogEntry, 'id' | 'serverName' | 'timestamp'>): void {
+        const logEntry: ServerLogEntry = { ...entry, id: this.nextId++, serverName, timestamp: Date.now() };
+        const serverEntries = this.entries.get(serverName) || [];
+        serverEntries.push(logEntry);
+        if (serverEntries.length > this.maxEntriesPerServer) {
+            serverEntries.splice(0, serverEntries.length - this.maxEntriesPerServer);
+        }
+        this.entries.set(serverName, serverEntries);
+        this.listeners.forEach(listener => listener(logEntry));
+    }
+
+    // Entries for one server, or for every server in arrival order
+    getLogs(serverName?: string): ServerLogEntry[] {
+        if (serverName) {
+            return [...(this.entries.get(serverName) || [])];
+        }
+        return Array.from(this.entries.values()).flat().sort((a, b) => a.id - b.id);
+    }
+
+    clear(serverName?: string): void {
+        if (serverName) {
+            this.entries.delete(serverName);
+        } else {
+            this.entries.clear();
+        }
+    }
+
+    // Subscribe to new entries; returns an unsubscribe function
+    onLog(callback: (entry: ServerLogEntry) => void): () => void {
+        this.listeners.push(callback);
+        return () => {
+            this.listeners = this.listeners.filter(listener => listener !== callback);
+        };
+    }
+}
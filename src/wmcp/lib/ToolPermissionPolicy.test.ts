@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { ToolPermissionPolicy, createWorkspaceToolPolicy, defaultToolPermission, loadToolPermissionRules } from './ToolPermissionPolicy';
+
+describe('defaultToolPermission', () => {
+  it('should only allow tools that declare they are safe', () => {
+    expect(defaultToolPermission({ annotations: { readOnlyHint: true } })).toBe('allow');
+    expect(defaultToolPermission({ annotations: { destructiveHint: false } })).toBe('allow');
+    expect(defaultToolPermission({ annotations: { destructiveHint: true } })).toBe('ask');
+    expect(defaultToolPermission({})).toBe('ask');
+    expect(defaultToolPermission()).toBe('ask');
+  });
+});
+
+describe('ToolPermissionPolicy', () => {
+  it('should prefer the most specific matching rule', () => {
+    const policy = new ToolPermissionPolicy([
+      { server: '*', tool: '*', permission: 'deny' },
+      { server: 'github', tool: '*', permission: 'ask' },
+      { server: 'github', tool: 'delete_*', permission: 'deny' },
+      { server: '*', tool: 'list_issues', permission: 'allow' },
+    ]);
+
+    expect(policy.resolve('memory', 'read_graph')).toBe('deny');
+    expect(policy.resolve('github', 'create_issue')).toBe('ask');
+    expect(policy.resolve('github', 'delete_repository')).toBe('deny');
+    expect(policy.resolve('github', 'list_issues')).toBe('allow');
+  });
+
+  it('should fall back to the annotations and replace rules with the same patterns', () => {
+    const policy = new ToolPermissionPolicy();
+    expect(policy.resolve('memory', 'read_graph', { annotations: { readOnlyHint: true } })).toBe('allow');
+
+    policy.setRule({ server: 'memory', tool: 'read_graph', permission: 'deny' });
+    policy.setRule({ server: 'memory', tool: 'read_graph', permission: 'ask' });
+    expect(policy.getRules()).toHaveLength(1);
+    expect(policy.resolve('memory', 'read_graph', { annotations: { readOnlyHint: true } })).toBe('ask');
+
+    policy.removeRule('memory', 'read_graph');
+    expect(policy.resolve('memory', 'read_graph')).toBe('ask');
+  });
+
+  it('should save workspace rules separately', () => {
+    localStorage.clear();
+    createWorkspaceToolPolicy('project-a').setRule({ server: 'github', tool: '*', permission: 'deny' });
+
+    expect(loadToolPermissionRules('project-a')).toEqual([{ server: 'github', tool: '*', permission: 'deny' }]);
+    expect(loadToolPermissionRules('project-b')).toEqual([]);
+    expect(createWorkspaceToolPolicy('project-a').resolve('github', 'get_me')).toBe('deny');
+  });
+});
@@ -0,0 +1,146 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type ToolPermission = 'allow' | 'ask' | 'deny';
+
+// `server` and `tool` are globs (`*` and `?`) matched against the server name and the server's own tool name
+export type ToolPermissionRule = {
+    server: string;
+    tool: string;
+    permission: ToolPermission;
+};
+
+// Rules for each workspace are saved under this prefix in localStorage
+export const TOOL_POLICY_STORAGE_PREFIX = 'mcp-tool-policy:';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+function hasWildcard(pattern: string): boolean {
+    return /[*?]/.test(pattern);
+}
+
+export function matchesGlob(pattern: string, value: string): boolean {
+    const source = pattern
+        .split('')
+        .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+        .join('');
+    return new RegExp(`^${source}$`).test(value);
+}
+
+// Exact tool names beat tool globs, then exact server names beat server globs, then longer patterns win
+function specificity(rule: ToolPermissionRule): number[] {
+    return [
+        hasWildcard(rule.tool) ? 0 : 1,
+        hasWildcard(rule.server) ? 0 : 1,
+        rule.tool.replace(/[*?]/g, '').length + rule.server.replace(/[*?]/g, '').length,
+    ];
+}
+
+function compareSpecificity(a: number[], b: number[]): number {
+    for (let index = 0; index < a.length; index++) {
+        if (a[index] !== b[index]) {
+            return a[index] - b[index];
+        }
+    }
+    return 0;
+}
+
+/**
+ * What to do with a tool no rule covers. Annotations are hints from the server, so they only
+ * pick the default: read-only and explicitly non-destructive tools run, everything else asks.
+ */
+export function defaultToolPermission(tool?: Pick<Tool, 'annotations'>): ToolPermission {
+    if (tool?.annotations?.readOnlyHint === true || tool?.annotations?.destructiveHint === false) {
+        return 'allow';
+    }
+    return 'ask';
+}
+
+// Allow/ask/deny rules for MCP tool calls
+export class ToolPermissionPolicy {
+    private rules: ToolPermissionRule[];
+    private changeListeners: Array<(rules: ToolPermissionRule[]) => void> = [];
+
+    constructor(rules: ToolPermissionRule[] = []) {
+        this.rules = [...rules];
+    }
+
+    getRules(): ToolPermissionRule[] {
+        return [...this.rules];
+    }
+
+    /**
+     * The permission for a call. The most specific matching rule wins; among equally specific
+     * rules the one set last wins. Without a match the tool's annotations decide.
+     */
+    resolve(serverName: string, toolName: string, tool?: Pick<Tool, 'annotations'>): ToolPermission {
+        let best: { rule: ToolPermissionRule; specificity: number[] } | null = null;
+        for (const rule of this.rules) {
+            if (!matchesGlob(rule.server, serverName) || !matchesGlob(rule.tool, toolName)) {
+                continue;
+            }
+            const ruleSpecificity = specificity(rule);
+            if (!best || compareSpecificity(ruleSpecificity, best.specificity) >= 0) {
+                best = { rule, specificity: ruleSpecificity };
+            }
+        }
+        return best ? best.rule.permission : defaultToolPermission(tool);
+    }
+
+    // Add a rule, replacing any rule with the same patterns
+    setRule(rule: ToolPermissionRule): void {
+        this.rules = [...this.rules.filter(existing => existing.server !== rule.server || existing.tool !== rule.tool), rule];
+        this.notifyChange();
+    }
+
+    removeRule(server: string, tool: string): void {
+        this.rules = this.rules.filter(rule => rule.server !== server || rule.tool !== tool);
+        this.notifyChange();
+    }
+
+    setRules(rules: ToolPermissionRule[]): void {
+        this.rules = [...rules];
+        this.notifyChange();
+    }
+
+    onChange(listener: (rules: ToolPermissionRule[]) => void): () => void {
+        this.changeListeners.push(listener);
+        return () => {
+            this.changeListeners = this.changeListeners.filter(existing => existing !== listener);
+        };
+    }
+
+    private notifyChange(): void {
+        const rules = this.getRules();
+        this.changeListeners.forEach(listener => listener(rules));
+    }
+}
+
+function isRule(value: unknown): value is ToolPermissionRule {
+    const rule = value as ToolPermissionRule;
+    return typeof rule?.server === 'string'
+        && typeof rule.tool === 'string'
+        && ['allow', 'ask', 'deny'].includes(rule.permission);
+}
+
+export function loadToolPermissionRules(workspaceId: string = DEFAULT_WORKSPACE_ID): ToolPermissionRule[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(TOOL_POLICY_STORAGE_PREFIX + workspaceId) || '[]');
+        return Array.isArray(stored) ? stored.filter(isRule) : [];
+    } catch (error) {
+        console.warn(`Ignoring unreadable tool permissions for workspace ${workspaceId}:`, error);
+        return [];
+    }
+}
+
+export function saveToolPermissionRules(workspaceId: string, rules: ToolPermissionRule[]): void {
+    localStorage.setItem(TOOL_POLICY_STORAGE_PREFIX + workspaceId, JSON.stringify(rules));
+}
+
+/**
+ * A policy loaded from the workspace's saved rules that saves itself whenever they change
+ */
+export function createWorkspaceToolPolicy(workspaceId: string = DEFAULT_WORKSPACE_ID): ToolPermissionPolicy {
+    const policy = new ToolPermissionPolicy(loadToolPermissionRules(workspaceId));
+    policy.onChange(rules => saveToolPermissionRules(workspaceId, rules));
+    return policy;
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { NdjsonLineDecoder, WebContainerStdioTransport, WebContainerStdioTransportOptions, parseMessageLine } from './WebcontainerStdioTransport';
+
+// A process whose stdout is fed by the test and whose stdin is collected
+function createFakeProcess() {
+  let controller!: ReadableStreamDefaultController<Uint8Array | string>;
+  const output = new ReadableStream<Uint8Array | string>({
+    start(c) {
+      controller = c;
+    }
+  });
+  const written: string[] = [];
+  const input = new WritableStream<string>({
+    write(chunk) {
+      written.push(chunk);
+    }
+  });
+  return { process: { input, output }, controller, written };
+}
+
+async function startTransport(options?: WebContainerStdioTransportOptions) {
+  const fake = createFakeProcess();
+  const transport = new WebContainerStdioTransport(fake.process, 'test', options);
+  const messages: JSONRPCMessage[] = [];
+  const stderr: string[] = [];
+  let closeCount = 0;
+  transport.onmessage = (message) => messages.push(message);
+  transport.onstderr = (text) => stderr.push(text);
+  transport.onclose = () => closeCount++;
+  await transport.start();
+  return { ...fake, transport, messages, stderr, closeCount: () => closeCount };
+}
+
+// Let the read loop pick up everything enqueued so far
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const response = { jsonrpc: '2.0', id: 1, result: { text: 'héllo 🎉' } } as const;
+const initialize: JSONRPCMessage = { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} };
+// Our answer to the server's ping, and the server's answer to ours, serialize the same
+const emptyResult: JSONRPCMessage = { result: {}, jsonrpc: '2.0', id: 7 };
+
+describe('NdjsonLineDecoder', () => {
+  it('should keep a partial line until its newline arrives', () => {
+    const decoder = new NdjsonLineDecoder();
+    expect(decoder.push('{"a":')).toEqual([]);
+    expect(decoder.push('1}\n{"b"')).toEqual(['{"a":1}']);
+    expect(decoder.push(':2}\r\n')).toEqual(['{"b":2}']);
+  });
+
+  it('should decode multi-byte characters split across chunks', () => {
+    const decoder = new NdjsonLineDecoder();
+    const bytes = new TextEncoder().encode('é🎉\n');
+    const lines = [
+      ...decoder.push(bytes.slice(0, 1)),
+      ...decoder.push(bytes.slice(1, 4)),
+      ...decoder.push(bytes.slice(4))
+    ];
+    expect(lines).toEqual(['é🎉']);
+  });
+
+  it('should return the unterminated remainder on flush', () => {
+    const decoder = new NdjsonLineDecoder();
+    decoder.push('tail');
+    expect(decoder.flush()).toEqual(['tail']);
+  });
+});
+
+describe('parseMessageLine', () => {
+  it('should strip terminal escape sequences around the JSON', () => {
+    expect(parseMessageLine('\u001b[0m{"jsonrpc":"2.0","method":"ping","id":3}\u001b[K')).toEqual({ jsonrpc: '2.0', method: 'ping', id: 3 });
+  });
+
+  it('should reject text and JSON that is not JSON-RPC', () => {
+    expect(parseMessageLine('Server listening')).toBeNull();
+    expect(parseMessageLine('{"level":"info","msg":"ready"}')).toBeNull();
+  });
+
+  it('should reject log lines that contain a message after other text', () => {
+    expect(parseMessageLine('debug: sending {"jsonrpc":"2.0","id":3,"method":"sampling/createMessage"}')).toBeNull();
+    expect(parseMessageLine('{"jsonrpc":"2.0","method":"ping"} sent')).toBeNull();
+  });
+});
+
+describe('WebContainerStdioTransport', () => {
+  it('should deliver messages split across byte chunks', async () => {
+    const { controller, messages } = await startTransport();
+    const bytes = new TextEncoder().encode(JSON.stringify(response) + '\n');
+    // Split inside the emoji
+    const splitAt = bytes.length - 4;
+    controller.enqueue(bytes.slice(0, splitAt));
+    controller.enqueue(bytes.slice(splitAt));
+    await flush();
+
+    expect(messages).toEqual([response]);
+  });
+
+  it('should deliver several messages from one chunk in order', async () => {
+    const { controller, messages } = await startTransport();
+    controller.enqueue('{"jsonrpc":"2.0","method":"a"}\n{"jsonrpc":"2.0","method":"b"}\n');
+    await flush();
+
+    expect(messages.map(message => (message as { method: string }).method)).toEqual(['a', 'b']);
+  });
+
+  it('should deliver a large message intact', async () => {
+    const { controller, messages } = await startTransport();
+    const big = { jsonrpc: '2.0', id: 2, result: { text: 'x'.repeat(2 * 1024 * 1024) } };
+    const line = JSON.stringify(big) + '\n';
+    for (let i = 0; i < line.length; i += 65536) {
+      controller.enqueue(line.slice(i, i + 65536));
+    }
+    await flush();
+
+    expect(messages).toEqual([big]);
+  });
+
+  it('should route non-JSON-RPC lines to onstderr', async () => {
+    const { controller, messages, stderr } = await startTransport();
+    controller.enqueue('npm WARN deprecated\n');
+    await flush();
+
+    expect(messages).toEqual([]);
+    expect(stderr).toEqual(['npm WARN deprecated']);
+  });
+
+  it('should write newline-delimited JSON and drop its echo', async () => {
+    const { controller, transport, written, messages } = await startTransport();
+    const request: JSONRPCMessage = { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} };
+    await transport.send(request);
+
+    expect(written).toEqual([JSON.stringify(request) + '\n']);
+
+    controller.enqueue(JSON.stringify(request) + '\r\n');
+    controller.enqueue(JSON.stringify(response) + '\r\n');
+    await flush();
+
+    expect(messages).toEqual([response]);
+  });
+
+  it('should only drop the echo of the oldest line it sent', async () => {
+    const { controller, transport, messages } = await startTransport();
+    await transport.send(initialize);
+    controller.enqueue(JSON.stringify(initialize) + '\n');
+    await flush();
+
+    await transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    await transport.send(emptyResult);
+    // The server's own message arrives before the echoes catch up
+    controller.enqueue(JSON.stringify(emptyResult) + '\n');
+    await flush();
+
+    expect(messages).toEqual([emptyResult]);
+  });
+
+  it('should deliver everything once it knows the process does not echo', async () => {
+    const { controller, transport, messages } = await startTransport();
+    await transport.send(initialize);
+    controller.enqueue(JSON.stringify(response) + '\n');
+    await flush();
+
+    await transport.send(emptyResult);
+    controller.enqueue(JSON.stringify(emptyResult) + '\n');
+    await flush();
+
+    expect(messages).toEqual([response, emptyResult]);
+  });
+
+  it('should forget lines whose echo never came back', async () => {
+    const { controller, transport, messages } = await startTransport({ echo: true, echoTimeoutMs: 1000 });
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    await transport.send(emptyResult);
+
+    now.mockReturnValue(5000);
+    controller.enqueue(JSON.stringify(emptyResult) + '\n');
+    await flush();
+    now.mockRestore();
+
+    expect(messages).toEqual([emptyResult]);
+  });
+
+  it('should close once when the output ends', async () => {
+    const { controller, transport, closeCount } = await startTransport();
+    controller.close();
+    await flush();
+    await transport.close();
+
+    expect(closeCount()).toBe(1);
+    await expect(transport.send({ jsonrpc: '2.0', method: 'ping' })).rejects.toThrow();
+  });
+
+  it('should refuse to start twice', async () => {
+    const { transport } = await startTransport();
+    await expect(transport.start()).rejects.toThrow();
+  });
+});
@@ -1,13 +1,7 @@
-function addLogToTerminal(log: string, level: 'info' | 'warning' | 'error' | 'success') {
-    console.log(log)
-}
-const processOutputData: Map<string, string> = new Map();
-  
-export type PendingRequest = {
-    message: any;
-    timestamp: number;
-}
-type ServerProcess = {
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+
+export type StdioServerProcess = {
     input: WritableStream<string>;
     output?: ReadableStream<Uint8Array | string>;
     stderr?: ReadableStream<Uint8Array | string>;
@@ -15,594 +9,252 @@ type ServerProcess = {
     exit?: Promise<any>;
 };
 
-export class WebContainerStdioTransport {
-    private inputWriter: WritableStreamDefaultWriter<string>;
-    private onServerReady?: () => void;
-    private buffer: string = '';
-    public onmessage: ((message: any) => void) | null = null;
-    public onclose: (() => void) | undefined = undefined;
-    public onerror: ((error: Error) => void) | undefined = undefined;
-    private isStarted: boolean = false;
-    private pendingRequests: Map<string | number, PendingRequest> = new Map();
-    private isClient: boolean = true;
-    private serverReady: boolean = false;
-    private initializePromise: Promise<void> | null = null;
-    private initializeResolve: (() => void) | null = null;
-    private requestTimeout: number = 30000;
-    private retryCount: Map<string | number, number> = new Map();
-    private pendingRetries: Map<string | number, NodeJS.Timeout> = new Map();
-    private serverName: string;
-    private checkInterval: NodeJS.Timeout | null = null;
-    private maxBufferSize: number = 1024 * 1024; // 1MB max buffer size
-    private lastActivityTimestamp: number = Date.now();
-    private heartbeatInterval: NodeJS.Timeout | null = null;
-    private connectionHealthCheckInterval: NodeJS.Timeout | null = null;
-    private maxInactivityTime: number = 60000; // 60 seconds of inactivity before considering connection dead
-    private maxRetries: number = 3;
-    private retryDelay: number = 2000; // 2 seconds between retries
-    private outputReader: ReadableStreamDefaultReader<string | Uint8Array> | null = null;
-    private stderrReader: ReadableStreamDefaultReader<string | Uint8Array> | null = null;
-    private isReading: boolean = false;
-  
-    constructor(serverProcess: ServerProcess, onServerReady?: () => void, serverName: string = 'unknown') {
-      this.inputWriter = serverProcess.input.getWriter();
-      this.onServerReady = onServerReady;
-      this.serverName = serverName;
-      
-      // Set up a polling interval to check for new output
-      this.checkInterval = setInterval(() => {
-        this.checkForNewOutput();
-      }, 250); // Check every 250ms
-      
-      // Set up a heartbeat to keep the connection alive
-      this.heartbeatInterval = setInterval(() => {
-        this.sendHeartbeat();
-      }, 15000); // Send heartbeat every 15 seconds
-      
-      // Set up a connection health check
-      this.connectionHealthCheckInterval = setInterval(() => {
-        this.checkConnectionHealth();
-      }, 10000); // Check connection health every 10 seconds
-  
-      // Set up output reader - but don't lock the stream yet
-      if (serverProcess.output && !this.isReading) {
-        this.isReading = true;
-        this.startReading(serverProcess);
-      }
-    }
-  
-    private async startReading(serverProcess: ServerProcess): Promise<void> {
-      try {
-        if (serverProcess.output) {
-          this.outputReader = serverProcess.output.getReader();
-          
-          // Start reading in a separate async function
-          this.readOutput();
-        }
-        
-        if (serverProcess.stderr) {
-          this.stderrReader = serverProcess.stderr.getReader();
-          
-          // Start reading stderr in a separate async function
-          this.readStderr();
+// How many sent lines to remember while waiting for the terminal to echo them back
+const MAX_PENDING_ECHOES = 256;
+
+// A terminal echoes a line as soon as it is written, so one that hasn't come back by now never will
+const DEFAULT_ECHO_TIMEOUT_MS = 5000;
+
+export type WebContainerStdioTransportOptions = {
+    // Whether the process echoes its input; detected from the first requests when omitted
+    echo?: boolean;
+    // How long a sent line waits for its echo before it's forgotten
+    echoTimeoutMs?: number;
+};
+
+type PendingEcho = {
+    line: string;
+    message: JSONRPCMessage;
+    sentAt: number;
+};
+
+// Only a request that a server never sends itself proves that a matching line is an echo
+function isEchoProof(message: JSONRPCMessage): boolean {
+    return 'method' in message && 'id' in message && message.method !== 'ping';
+}
+
+// Splits a stream of text or UTF-8 bytes into lines without re-scanning what was already seen
+export class NdjsonLineDecoder {
+    private decoder = new TextDecoder();
+    private partial = '';
+
+    // Returns the lines completed by this chunk; a trailing partial line is kept for the next one
+    push(chunk: Uint8Array | string): string[] {
+        // stream: true holds back a multi-byte character split across chunks
+        const text = typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+        if (!text.includes('\n')) {
+            this.partial += text;
+            return [];
         }
-      } catch (error) {
-        addLogToTerminal(`Error setting up readers for ${this.serverName}: ${(error as Error).message}`, 'error');
-        if (this.onerror) this.onerror(error as Error);
-      }
+
+        const lines = (this.partial + text).split('\n');
+        this.partial = lines.pop()!;
+        return lines.map(line => line.endsWith('\r') ? line.slice(0, -1) : line);
     }
-  
-    private async readOutput(): Promise<void> {
-      if (!this.outputReader) return;
-      
-      try {
-        while (true) {
-          const { value, done } = await this.outputReader.read();
-          if (done) {
-            addLogToTerminal(`Server process ${this.serverName} output stream ended`, 'warning');
-            if (this.onclose) this.onclose();
-            break;
-          }
-          
-          if (value) {
-            // Update last activity timestamp
-            this.lastActivityTimestamp = Date.now();
-            
-            // Add to buffer
-            this.buffer += value;
-            
-            // Check for server ready message in the raw output
-            if (!this.serverReady && (
-                this.buffer.includes('"method":"server/ready"') || 
-                this.buffer.includes('Server: Ready') || 
-                this.buffer.includes('Server started') || 
-                this.buffer.includes('listening') ||
-                this.buffer.includes('ready')
-            )) {
-              this.serverReady = true;
-              if (this.onServerReady) {
-                this.onServerReady();
-              }
-              if (this.initializeResolve) {
-                this.initializeResolve();
-                this.initializeResolve = null;
-              }
-              addLogToTerminal(`Detected server ready message for ${this.serverName}`, 'success');
-            }
-            
-            // Process the buffer
-            await this.processBuffer();
-          }
-        }
-      } catch (error) {
-        addLogToTerminal(`Output reader error for ${this.serverName}: ${(error as Error).message}`, 'error');
-        if (this.onerror) this.onerror(error as Error);
-      } finally {
-        // Release the reader
-        if (this.outputReader) {
-          try {
-            this.outputReader.releaseLock();
-            this.outputReader = null;
-          } catch (error) {
-            addLogToTerminal(`Error releasing output reader: ${(error as Error).message}`, 'warning');
-          }
-        }
-      }
+
+    // Whatever is left once the stream has ended
+    flush(): string[] {
+        const rest = this.partial + this.decoder.decode();
+        this.partial = '';
+        return rest.trim() ? [rest] : [];
     }
-  
-    private async readStderr(): Promise<void> {
-      if (!this.stderrReader) return;
-      
-      try {
-        while (true) {
-          const { value, done } = await this.stderrReader.read();
-          if (done) break;
-          
-          if (value) {
-            addLogToTerminal(`Server ${this.serverName} stderr: ${value}`, 'warning');
-          }
+}
+
+// CSI sequences (colors, cursor moves, line clears) and OSC sequences such as window titles
+const ANSI_ESCAPE_PATTERN = /\u001b\[[0-?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g;
+
+// Parse a line as a JSON-RPC message. Each line holds exactly one message; only the terminal's
+// escape sequences and whitespace are stripped, so a log line that merely contains JSON is not one
+export function parseMessageLine(line: string): JSONRPCMessage | null {
+    const text = line.replace(ANSI_ESCAPE_PATTERN, '').trim();
+    if (!text.startsWith('{') || !text.endsWith('}')) {
+        return null;
+    }
+
+    try {
+        const result = JSONRPCMessageSchema.safeParse(JSON.parse(text));
+        return result.success ? result.data : null;
+    } catch {
+        return null;
+    }
+}
+
+// MCP stdio transport over a process spawned in a WebContainer.
+// WebContainer processes run in a terminal, so stderr is interleaved with stdout
+// and everything written to stdin is echoed back; both are filtered out here.
+export class WebContainerStdioTransport implements Transport {
+    public onmessage?: (message: JSONRPCMessage) => void;
+    public onclose?: () => void;
+    public onerror?: (error: Error) => void;
+    // Receives stderr output and any lines that are not JSON-RPC messages
+    public onstderr?: (text: string) => void;
+
+    private writer: WritableStreamDefaultWriter<string> | null = null;
+    private outputReader: ReadableStreamDefaultReader<Uint8Array | string> | null = null;
+    private stderrReader: ReadableStreamDefaultReader<Uint8Array | string> | null = null;
+    // Lines we wrote that the terminal has not echoed yet, oldest first
+    private pendingEchoes: PendingEcho[] = [];
+    // Undefined until the first echo or response tells us
+    private echo: boolean | undefined;
+    private echoTimeoutMs: number;
+    private started = false;
+    private closed = false;
+
+    constructor(
+        private serverProcess: StdioServerProcess,
+        private serverName: string = 'unknown',
+        options: WebContainerStdioTransportOptions = {}
+    ) {
+        this.echo = options.echo;
+        this.echoTimeoutMs = options.echoTimeoutMs ?? DEFAULT_ECHO_TIMEOUT_MS;
+    }
+
+    async start(): Promise<void> {
+        if (this.started) {
+            throw new Error(`Transport for ${this.serverName} already started`);
         }
-      } catch (error) {
-        addLogToTerminal(`Stderr reader error for ${this.serverName}: ${(error as Error).message}`, 'warning');
-      } finally {
-        // Release the reader
-        if (this.stderrReader) {
-          try {
-            this.stderrReader.releaseLock();
-            this.stderrReader = null;
-          } catch (error) {
-            addLogToTerminal(`Error releasing stderr reader: ${(error as Error).message}`, 'warning');
-          }
+        this.started = true;
+
+        this.writer = this.serverProcess.input.getWriter();
+
+        if (this.serverProcess.output) {
+            this.outputReader = this.serverProcess.output.getReader();
+            void this.readOutput(this.outputReader);
         }
-      }
-    }
-  
-    // Send a heartbeat to keep the connection alive
-    private async sendHeartbeat(): Promise<void> {
-      try {
-        if (this.isStarted && this.serverReady) {
-          // Only send heartbeat if we haven't had activity in the last 10 seconds
-          const currentTime = Date.now();
-          if (currentTime - this.lastActivityTimestamp > 10000) {
-            await this.send({
-              jsonrpc: "2.0",
-              method: "ping",
-              params: {},
-              id: `ping-${Date.now()}`
-            });
-          }
+
+        if (this.serverProcess.stderr) {
+            this.stderrReader = this.serverProcess.stderr.getReader();
+            void this.readStderr(this.stderrReader);
         }
-      } catch (error) {
-        // If heartbeat fails, report error but don't crash
-        addLogToTerminal(`Heartbeat failed for server ${this.serverName}: ${(error as Error).message}`, 'warning');
-      }
     }
-    
-    // Check connection health
-    private checkConnectionHealth(): void {
-      const currentTime = Date.now();
-      const inactivityTime = currentTime - this.lastActivityTimestamp;
-      
-      // If we haven't had activity in a while, consider the connection dead
-      if (inactivityTime > this.maxInactivityTime) {
-        addLogToTerminal(`Connection to server ${this.serverName} appears to be dead (no activity for ${inactivityTime/1000} seconds)`, 'error');
-        
-        // Trigger error handler
-        if (this.onerror) {
-          this.onerror(new Error(`Connection timeout: No activity for ${inactivityTime/1000} seconds`));
+
+    async send(message: JSONRPCMessage, _options?: TransportSendOptions): Promise<void> {
+        if (!this.writer || this.closed) {
+            throw new Error(`Transport for ${this.serverName} is not connected`);
         }
-      }
-    }
-  
-    private checkForNewOutput(): void {
-      const data = processOutputData.get(this.serverName) || '';
-      if (data && data !== this.buffer) {
-        // Update last activity timestamp when we receive data
-        this.lastActivityTimestamp = Date.now();
-        
-        // Process new data
-        const newData = data.substring(this.buffer.length);
-        this.buffer = data;
-        
-        // Check if buffer is getting too large and trim if needed
-        if (this.buffer.length > this.maxBufferSize) {
-          addLogToTerminal(`Buffer for server ${this.serverName} is too large (${this.buffer.length} bytes), trimming...`, 'warning');
-          // Keep the last 100KB of data
-          this.buffer = this.buffer.substring(this.buffer.length - 100 * 1024);
+
+        const line = JSON.stringify(message);
+        if (this.echo !== false) {
+            this.pendingEchoes.push({ line, message, sentAt: Date.now() });
+            if (this.pendingEchoes.length > MAX_PENDING_ECHOES) {
+                this.pendingEchoes.shift();
+            }
         }
-        
-        // Check for server ready message in the raw output
-        if (!this.serverReady && (
-            this.buffer.includes('"method":"server/ready"') || 
-            this.buffer.includes('Server: Ready') || 
-            this.buffer.includes('Server started') || 
-            this.buffer.includes('listening') ||
-            this.buffer.includes('ready')
-        )) {
-          this.serverReady = true;
-          if (this.onServerReady) {
-            this.onServerReady();
-          }
-          if (this.initializeResolve) {
-            this.initializeResolve();
-            this.initializeResolve = null;
-          }
-          addLogToTerminal(`Detected server ready message for ${this.serverName}`, 'success');
+
+        // Wait for the process to drain its input before queueing more
+        await this.writer.ready;
+        await this.writer.write(line + '\n');
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
         }
-        
-        // Process the buffer
-        this.processBuffer().catch(error => {
-          if (this.onerror) {
-            this.onerror(error instanceof Error ? error : new Error(String(error)));
-          }
-        });
-      }
+        this.closed = true;
+
+        await Promise.all([
+            this.outputReader?.cancel().catch(() => undefined),
+            this.stderrReader?.cancel().catch(() => undefined),
+            this.writer?.close().catch(() => undefined),
+        ]);
+        this.outputReader = null;
+        this.stderrReader = null;
+        this.writer = null;
+
+        this.onclose?.();
     }
-  
-    async processBuffer(): Promise<void> {
-      // Split on newlines but handle potential partial messages
-      let lines = this.buffer.split('\n');
-      
-      // Keep the last line in buffer if it's incomplete
-      if (!lines[lines.length - 1].endsWith('}')) {
-        this.buffer = lines.pop() || '';
-      } else {
-        this.buffer = '';
-      }
-  
-      for (const line of lines) {
-        if (!line.trim()) continue;
-  
+
+    // Pull one chunk at a time so a slow consumer holds the process back instead of buffering
+    private async readOutput(reader: ReadableStreamDefaultReader<Uint8Array | string>): Promise<void> {
+        const decoder = new NdjsonLineDecoder();
+
         try {
-          // Handle non-JSON lines
-          if (!line.includes('{') || !line.includes('}')) {
-            addLogToTerminal(`Server log: ${line}`, 'info');
-            
-            // Check for server ready message in plain text
-            if (!this.serverReady && (
-                line.includes('Server: Ready') || 
-                line.includes('Server started') || 
-                line.includes(`${this.serverName} started`) ||
-                line.includes('listening') ||
-                line.includes('ready')
-            )) {
-              this.serverReady = true;
-              if (this.onServerReady) {
-                this.onServerReady();
-              }
-              if (this.initializeResolve) {
-                this.initializeResolve();
-                this.initializeResolve = null;
-              }
-              addLogToTerminal(`Detected server ready message for ${this.serverName}`, 'success');
-            }
-            continue;
-          }
-  
-          // Try to extract JSON from the line
-          const jsonMatch = line.match(/\{.*\}/);
-          if (!jsonMatch) {
-            addLogToTerminal(`Server log: ${line}`, 'info');
-            continue;
-          }
-  
-          // Try to parse the message
-          let message: any;
-          try {
-            message = JSON.parse(jsonMatch[0]);
-            addLogToTerminal(`Parsed message: ${message.method || 'response'}`, 'info');
-          } catch (e) {
-            addLogToTerminal(`Server log: ${line}`, 'info');
-            continue;
-          }
-  
-          // Handle server ready state
-          if (!this.serverReady && (
-              message.method === 'server/ready' || 
-              message.result || 
-              message.method === 'notifications/initialized'
-          )) {
-            this.serverReady = true;
-            if (this.onServerReady) {
-              this.onServerReady();
-            }
-            if (this.initializeResolve) {
-              this.initializeResolve();
-              this.initializeResolve = null;
-            }
-            addLogToTerminal(`Server ${this.serverName} is ready`, 'success');
-          }
-  
-          // Handle responses
-          if (message.result !== undefined || message.error !== undefined) {
-            addLogToTerminal(`Server ${message.error ? 'error' : 'response'} for ID ${message.id}: ${JSON.stringify(message.error || message.result)}`, message.error ? 'error' : 'success');
-            
-            if (message.id !== undefined) {
-              const request = this.pendingRequests.get(message.id);
-              if (request) {
-                addLogToTerminal(`Found matching request: ${request.message.method}`, 'success');
-                
-                // Clear any pending retries for this request
-                const pendingRetry = this.pendingRetries.get(message.id);
-                if (pendingRetry) {
-                  clearTimeout(pendingRetry);
-                  this.pendingRetries.delete(message.id);
-                }
-                
-                this.pendingRequests.delete(message.id);
-                this.retryCount.delete(message.id);
-                
-                if (this.onmessage) {
-                  this.onmessage(message);
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) {
+                    decoder.flush().forEach(line => this.handleLine(line));
+                    break;
                 }
-              } else if (this.onmessage) {
-                this.onmessage(message);
-              }
+                decoder.push(value).forEach(line => this.handleLine(line));
             }
-            continue;
-          }
-  
-          // Handle echoed requests
-          if (message.method && message.id !== undefined && this.pendingRequests.has(message.id)) {
-            const request = this.pendingRequests.get(message.id);
-            if (request && JSON.stringify(message) === JSON.stringify(request.message)) {
-              addLogToTerminal(`Detected echoed request for ${message.method}`, 'info');
-              
-              // For resources/read and tools/call, retry if needed
-              if (message.method === 'resources/read' || message.method === 'tools/call') {
-                const retries = this.retryCount.get(message.id) || 0;
-                if (retries < this.maxRetries) {
-                  this.retryCount.set(message.id, retries + 1);
-                  addLogToTerminal(`Will retry ${message.method} request (attempt ${retries + 1}) in ${this.retryDelay}ms`, 'info');
-                  
-                  // Clear any existing retry timeout
-                  const existingRetry = this.pendingRetries.get(message.id);
-                  if (existingRetry) {
-                    clearTimeout(existingRetry);
-                  }
-                  
-                  // Set new retry timeout
-                  const retryTimeout = setTimeout(() => {
-                    if (this.pendingRequests.has(message.id)) {
-                      addLogToTerminal(`Retrying ${message.method} request now (attempt ${retries + 1})`, 'info');
-                      this.send(request.message).catch(error => {
-                        addLogToTerminal(`Error resending request: ${(error as Error).message}`, 'error');
-                      });
-                    }
-                    this.pendingRetries.delete(message.id);
-                  }, this.retryDelay);
-                  
-                  this.pendingRetries.set(message.id, retryTimeout);
-                } else {
-                  addLogToTerminal(`${message.method} request failed after ${retries} retries`, 'error');
-                  
-                  // Clear any pending retries
-                  const pendingRetry = this.pendingRetries.get(message.id);
-                  if (pendingRetry) {
-                    clearTimeout(pendingRetry);
-                    this.pendingRetries.delete(message.id);
-                  }
-                  
-                  if (this.onmessage) {
-                    this.onmessage({
-                      id: message.id,
-                      error: {
-                        code: -32001,
-                        message: `${message.method} request failed after ${retries} retries`
-                      }
-                    });
-                  }
-                  this.pendingRequests.delete(message.id);
-                  this.retryCount.delete(message.id);
-                }
-              }
-              continue;
-            }
-          }
-  
-          // For all other messages
-          addLogToTerminal(`Server message: ${message.method || 'unknown'}`, 'info');
-          
-          if (this.onmessage) {
-            this.onmessage(message);
-          }
         } catch (error) {
-          addLogToTerminal(`Error processing message: ${(error as Error).message}`, 'error');
-        }
-      }
-  
-      // Check for timeouts
-      const now = Date.now();
-      for (const [id, request] of this.pendingRequests.entries()) {
-        const elapsed = now - request.timestamp;
-        if (elapsed > this.requestTimeout) {
-          addLogToTerminal(`Request ${id} (${request.message.method}) timed out after ${elapsed}ms`, 'error');
-          
-          // Clear any pending retries
-          const pendingRetry = this.pendingRetries.get(id);
-          if (pendingRetry) {
-            clearTimeout(pendingRetry);
-            this.pendingRetries.delete(id);
-          }
-          
-          this.pendingRequests.delete(id);
-          this.retryCount.delete(id);
-          if (this.onmessage) {
-            this.onmessage({
-              id,
-              error: {
-                code: -32001,
-                message: `Request timed out after ${elapsed}ms`
-              }
-            });
-          }
+            if (!this.closed) {
+                this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+            }
         }
-      }
-    }
-  
-    async start(): Promise<void> {
-      if (this.isStarted) {
-        addLogToTerminal('Transport: Already started', 'info');
-        return;
-      }
-  
-      addLogToTerminal('Transport: Starting...', 'info');
-      this.isStarted = true;
-      
-      this.initializePromise = new Promise<void>((resolve) => {
-        this.initializeResolve = resolve;
-        
-        // Auto-resolve after timeout if server doesn't signal ready
-        setTimeout(() => {
-          if (!this.serverReady) {
-            addLogToTerminal(`Auto-ready after timeout for server ${this.serverName}`, 'warning');
-            this.serverReady = true;
-            resolve();
-          }
-        }, 5000);
-      });
+
+        // The process closed stdout, so nothing more can arrive
+        await this.close();
     }
-  
-    async send(message: any): Promise<void> {
-      // Update last activity timestamp when sending data
-      this.lastActivityTimestamp = Date.now();
-      
-      // Only log non-ping/pong messages to reduce noise
-      if (message.method && message.method !== 'ping' && message.method !== 'pong') {
-        addLogToTerminal(`Sending message: ${message.method || 'response'}`, 'info');
-      }
-      
-      if (!this.serverReady && message.method === 'initialize') {
-        addLogToTerminal('Waiting for server ready before initialize...', 'info');
+
+    private async readStderr(reader: ReadableStreamDefaultReader<Uint8Array | string>): Promise<void> {
+        const decoder = new TextDecoder();
+
         try {
-          const timeout = new Promise<void>((_, reject) => 
-            setTimeout(() => reject(new Error('Server initialization timeout')), this.requestTimeout)
-          );
-          
-          await Promise.race([
-            this.initializePromise,
-            timeout
-          ]);
-          
-          addLogToTerminal('Server ready, sending initialize...', 'success');
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                const text = typeof value === 'string' ? value : decoder.decode(value, { stream: true });
+                if (text) {
+                    this.onstderr?.(text);
+                }
+            }
         } catch (error) {
-          addLogToTerminal(`Server initialization failed: ${(error as Error).message}`, 'error');
-          throw error;
+            if (!this.closed) {
+                console.warn(`Error reading stderr of server ${this.serverName}:`, error);
+            }
         }
-      }
-  
-      const json = JSON.stringify(message) + '\n';
-      
-      if (this.isClient) {
-        // Only log non-ping/pong messages
-        if (message.method && message.method !== 'ping' && message.method !== 'pong') {
-          addLogToTerminal(`Client -> Server: ${message.method || 'response'}`, 'info');
+    }
+
+    private handleLine(line: string): void {
+        if (!line.trim()) {
+            return;
         }
-        
-        if (message.id !== undefined) {
-          this.pendingRequests.set(message.id, {
-            message,
-            timestamp: Date.now()
-          });
+
+        if (this.isEcho(line.trim())) {
+            return;
         }
-      }
-      
-      try {
-        await this.inputWriter.write(json);
-      } catch (error) {
-        addLogToTerminal(`Error writing to server: ${(error as Error).message}`, 'error');
-        
-        // If this is a critical error, trigger the error handler
-        if (this.onerror) {
-          this.onerror(error as Error);
+
+        const message = parseMessageLine(line);
+        if (message) {
+            this.detectNoEcho(message);
+            this.onmessage?.(message);
+        } else {
+            this.onstderr?.(line);
         }
-        
-        throw error;
-      }
     }
-  
-    async close(): Promise<void> {
-      addLogToTerminal('Transport: Closing...', 'info');
-      
-      // Clear all intervals
-      if (this.checkInterval) {
-        clearInterval(this.checkInterval);
-        this.checkInterval = null;
-      }
-      
-      if (this.heartbeatInterval) {
-        clearInterval(this.heartbeatInterval);
-        this.heartbeatInterval = null;
-      }
-      
-      if (this.connectionHealthCheckInterval) {
-        clearInterval(this.connectionHealthCheckInterval);
-        this.connectionHealthCheckInterval = null;
-      }
-      
-      // Clear all pending retries
-      for (const timeout of this.pendingRetries.values()) {
-        clearTimeout(timeout);
-      }
-      this.pendingRetries.clear();
-      
-      // Release readers
-      if (this.outputReader) {
-        try {
-          this.outputReader.releaseLock();
-          this.outputReader = null;
-        } catch (error) {
-          addLogToTerminal(`Error releasing output reader: ${(error as Error).message}`, 'warning');
+
+    // Drop the terminal's echo of something we sent. Echoes come back in the order we wrote, so
+    // only the oldest pending line can match; a server message that happens to serialize the same
+    // as a later one is delivered.
+    private isEcho(line: string): boolean {
+        const expiredBefore = Date.now() - this.echoTimeoutMs;
+        while (this.pendingEchoes.length > 0 && this.pendingEchoes[0].sentAt < expiredBefore) {
+            this.pendingEchoes.shift();
         }
-      }
-      
-      if (this.stderrReader) {
-        try {
-          this.stderrReader.releaseLock();
-          this.stderrReader = null;
-        } catch (error) {
-          addLogToTerminal(`Error releasing stderr reader: ${(error as Error).message}`, 'warning');
+
+        const oldest = this.pendingEchoes[0];
+        if (this.echo === false || !oldest || oldest.line !== line) {
+            return false;
         }
-      }
-      
-      // Release the writer
-      try {
-        await this.inputWriter.close();
-      } catch (error) {
-        addLogToTerminal(`Error closing writer: ${(error as Error).message}`, 'warning');
-      }
-      
-      // Trigger onclose handler
-      if (this.onclose) {
-        this.onclose();
-      }
-    }
-  
-    get name(): string {
-      return 'WebContainerStdioTransport';
+        if (this.echo === undefined && !isEchoProof(oldest.message)) {
+            return false;
+        }
+
+        this.echo = true;
+        this.pendingEchoes.shift();
+        return true;
     }
-  
-    get version(): string {
-      return '1.0.0';
+
+    // A response to a request whose echo never arrived means the process doesn't echo
+    private detectNoEcho(message: JSONRPCMessage): void {
+        if (this.echo !== undefined || !('id' in message) || 'method' in message) {
+            return;
+        }
+        const answered = this.pendingEchoes.some(pending => isEchoProof(pending.message) && 'id' in pending.message && pending.message.id === message.id);
+        if (answered) {
+            this.echo = false;
+            this.pendingEchoes = [];
+        }
     }
-  }
\ No newline at end of file
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { ServerConfigImportError } from './serverConfigFile';
+import {
+  DEFAULT_SERVER_CATALOG,
+  createServerFromCatalog,
+  mergeServerCatalogs,
+  parseServerCatalog,
+  serverCatalogFormSchema,
+  serverCatalogSecretEnv,
+} from './serverCatalog';
+
+const gitlab = DEFAULT_SERVER_CATALOG.find(entry => entry.id === 'gitlab')!;
+
+describe('parseServerCatalog', () => {
+  it('should accept the bundled manifest', () => {
+    expect(DEFAULT_SERVER_CATALOG.map(entry => entry.id)).toContain('memory');
+    expect(gitlab.config).toMatchObject({ command: 'npx', args: ['-y', '@modelcontextprotocol/server-gitlab'] });
+  });
+
+  it('should reject undeclared placeholders and invalid configs', () => {
+    const manifest = [
+      { id: 'a', name: 'A', description: '', config: { command: 'npx', args: ['${dir}'] } },
+      { id: 'b', name: 'B', description: '', config: { args: [] } },
+    ];
+    expect(() => parseServerCatalog(manifest)).toThrow(ServerConfigImportError);
+
+    try {
+      parseServerCatalog(manifest);
+    } catch (error) {
+      expect((error as ServerConfigImportError).errors).toEqual([
+        { path: 'servers[0].config', message: 'refers to ${dir}, which is not declared in fields' },
+        { path: 'servers[1].config.command', message: 'is required' },
+      ]);
+    }
+  });
+});
+
+describe('mergeServerCatalogs', () => {
+  it('should let later entries replace earlier ones with the same id', () => {
+    const custom = { ...gitlab, name: 'Company GitLab' };
+    const merged = mergeServerCatalogs(DEFAULT_SERVER_CATALOG, [custom]);
+
+    expect(merged).toHaveLength(DEFAULT_SERVER_CATALOG.length);
+    expect(merged.find(entry => entry.id === 'gitlab')?.name).toBe('Company GitLab');
+  });
+});
+
+describe('createServerFromCatalog', () => {
+  it('should fill in values and drop blank optional ones', () => {
+    expect(serverCatalogFormSchema(gitlab).required).toEqual(['token']);
+    expect(createServerFromCatalog(gitlab, { token: 'secret', apiUrl: ' ' })).toEqual({
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-gitlab'],
+      env: { GITLAB_PERSONAL_ACCESS_TOKEN: 'secret' },
+    });
+  });
+
+  it('should require non-optional fields', () => {
+    expect(() => createServerFromCatalog(gitlab, {})).toThrow(/token: is required/);
+  });
+
+  it('should move secret env vars into an env group', () => {
+    const values = { token: 'secret', apiUrl: 'https://gitlab.example.com' };
+    expect(serverCatalogSecretEnv(gitlab, values)).toEqual({ GITLAB_PERSONAL_ACCESS_TOKEN: 'secret' });
+    expect(createServerFromCatalog(gitlab, values, { secretEnvGroup: 'gitlab-secrets' })).toEqual({
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-gitlab'],
+      env: { GITLAB_API_URL: 'https://gitlab.example.com' },
+      envGroups: ['gitlab-secrets'],
+    });
+  });
+
+  it('should leave secret header placeholders for the env group to fill', () => {
+    const remote = parseServerCatalog([{
+      id: 'linear',
+      name: 'Linear',
+      description: '',
+      config: { type: 'http', url: 'https://mcp.example.com', headers: { Authorization: 'Bearer ${token}' } },
+      fields: [{ name: 'token', secret: true }],
+    }])[0];
+
+    expect(serverCatalogSecretEnv(remote, { token: 'secret' })).toEqual({ token: 'secret' });
+    expect(createServerFromCatalog(remote, { token: 'secret' }, { secretEnvGroup: 'linear-secrets' })).toEqual({
+      type: 'http',
+      url: 'https://mcp.example.com',
+      headers: { Authorization: 'Bearer ${token}' },
+      envGroups: ['linear-secrets'],
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { z } from 'zod';
+import { RemoteServerConfig, StdioServerConfig, isRemoteServerConfig } from './McpClientManager';
+import {
+    ServerConfigFieldError,
+    ServerConfigImportError,
+    applyServerConfigVariables,
+    configStrings,
+    parseServerConfigEntry,
+} from './serverConfigFile';
+import bundledCatalog from './serverCatalog.json';
+
+// A value the user fills in during setup, referred to as `${name}` in the entry's config
+export type ServerCatalogField = {
+    name: string;
+    description?: string;
+    default?: string;
+    // Shown as a password input. Env vars and headers that use it can be moved into an env group,
+    // see createServerFromCatalog
+    secret?: boolean;
+    // Optional fields left blank drop the arg, env var or header that is exactly `${name}`
+    optional?: boolean;
+};
+
+export type ServerCatalogEntry = {
+    // Also the server name once added
+    id: string;
+    name: string;
+    description: string;
+    homepage?: string;
+    config: StdioServerConfig | RemoteServerConfig;
+    fields: ServerCatalogField[];
+};
+
+const stringField = z.string({ required_error: 'is required', invalid_type_error: 'must be a string' });
+
+const FieldSchema = z.object({
+    name: stringField.regex(/^[\w.-]+$/, 'must only contain letters, digits, "_", "-" and "."'),
+    description: stringField.optional(),
+    default: stringField.optional(),
+    secret: z.boolean({ invalid_type_error: 'must be true or false' }).optional(),
+    optional: z.boolean({ invalid_type_error: 'must be true or false' }).optional(),
+});
+
+const EntrySchema = z.object({
+    id: stringField.min(1, 'must not be empty'),
+    name: stringField.min(1, 'must not be empty'),
+    description: stringField,
+    homepage: stringField.url('must be a URL').optional(),
+    config: z.unknown(),
+    fields: z.array(FieldSchema, { invalid_type_error: 'must be an array' }).optional(),
+});
+
+function placeholderNames(value: string): string[] {
+    return Array.from(value.matchAll(/\$\{([^}]+)\}/g), match => match[1]);
+}
+
+/**
+ * Validate a catalog manifest (`{ "servers": [...] }` or a bare array of entries), throwing a
+ * ServerConfigImportError that lists every problem found.
+ */
+export function parseServerCatalog(manifest: unknown): ServerCatalogEntry[] {
+    const entries = Array.isArray(manifest)
+        ? manifest
+        : (manifest as { servers?: unknown } | null)?.servers;
+    if (!Array.isArray(entries)) {
+        throw new ServerConfigImportError([{ path: '', message: 'must be an array of servers or have a "servers" array' }]);
+    }
+
+    const errors: ServerConfigFieldError[] = [];
+    const catalog: ServerCatalogEntry[] = [];
+
+    entries.forEach((entry, index) => {
+        const path = `servers[${index}]`;
+        const parsed = EntrySchema.safeParse(entry);
+        if (!parsed.success) {
+            errors.push(...parsed.error.issues.map(issue => ({
+                path: [path, ...issue.path].join('.'),
+                message: issue.message,
+            })));
+            return;
+        }
+
+        const { config, errors: configErrors } = parseServerConfigEntry(`${path}.config`, parsed.data.config);
+        if (!config) {
+            errors.push(...configErrors);
+            return;
+        }
+
+        const fields = parsed.data.fields ?? [];
+        const fieldNames = new Set(fields.map(field => field.name));
+        for (const name of configStrings(config).flatMap(placeholderNames)) {
+            if (!fieldNames.has(name)) {
+                errors.push({ path: `${path}.config`, message: `refers to \${${name}}, which is not declared in fields` });
+            }
+        }
+
+        catalog.push({ ...parsed.data, config, fields });
+    });
+
+    if (errors.length > 0) {
+        throw new ServerConfigImportError(errors);
+    }
+    return catalog;
+}
+
+// Servers that ship with the app; hosts add their own with mergeServerCatalogs
+export const DEFAULT_SERVER_CATALOG: ServerCatalogEntry[] = parseServerCatalog(bundledCatalog);
+
+/**
+ * Combine catalogs in order. An entry with the same id as an earlier one replaces it in place.
+ */
+export function mergeServerCatalogs(...catalogs: ServerCatalogEntry[][]): ServerCatalogEntry[] {
+    const merged = new Map<string, ServerCatalogEntry>();
+    for (const entry of catalogs.flat()) {
+        merged.set(entry.id, entry);
+    }
+    return Array.from(merged.values());
+}
+
+/**
+ * JSON schema for the entry's setup fields, in the shape DynamicForm expects
+ */
+export function serverCatalogFormSchema(entry: ServerCatalogEntry) {
+    return {
+        title: entry.name,
+        description: entry.description,
+        properties: Object.fromEntries(entry.fields.map(field => [field.name, {
+            type: 'string',
+            description: field.description,
+            default: field.default,
+            ...(field.secret && { format: 'password' }),
+        }])),
+        required: entry.fields.filter(field => !field.optional).map(field => field.name),
+    };
+}
+
+// Values to prefill the setup form with
+export function serverCatalogDefaults(entry: ServerCatalogEntry): Record<string, string> {
+    return Object.fromEntries(
+        entry.fields.filter(field => field.default !== undefined).map(field => [field.name, field.default as string])
+    );
+}
+
+export type CreateServerFromCatalogOptions = {
+    // Leave the values of secret fields out of `env` and `headers` and refer to this env group
+    // instead; store them in it with serverCatalogSecretEnv
+    secretEnvGroup?: string;
+};
+
+// Name of the env group a catalog server's secrets are stored in
+export function serverCatalogSecretGroupName(entry: ServerCatalogEntry): string {
+    return `${entry.id}-secrets`;
+}
+
+function secretFieldNames(entry: ServerCatalogEntry): Set<string> {
+    return new Set(entry.fields.filter(field => field.secret).map(field => field.name));
+}
+
+// Env vars of a stdio entry whose value uses a secret field
+function secretEnvNames(entry: ServerCatalogEntry): string[] {
+    if (isRemoteServerConfig(entry.config) || !entry.config.env) {
+        return [];
+    }
+    const secretFields = secretFieldNames(entry);
+    return Object.entries(entry.config.env)
+        .filter(([, value]) => placeholderNames(value).some(name => secretFields.has(name)))
+        .map(([name]) => name);
+}
+
+// Secret fields used in the headers of a remote entry
+function secretHeaderFields(entry: ServerCatalogEntry): string[] {
+    if (!isRemoteServerConfig(entry.config) || !entry.config.headers) {
+        return [];
+    }
+    const secretFields = secretFieldNames(entry);
+    return [...new Set(Object.values(entry.config.headers).flatMap(placeholderNames))].filter(name => secretFields.has(name));
+}
+
+/**
+ * The secret values to store in the group passed as `secretEnvGroup`: for stdio servers the env
+ * vars that use secret fields, for remote servers the secret fields used in headers. Secrets in
+ * args can't go into an env group and stay in the config.
+ */
+export function serverCatalogSecretEnv(
+    entry: ServerCatalogEntry,
+    values: Record<string, string | undefined>
+): Record<string, string> {
+    const config = createServerFromCatalog(entry, values);
+    if (isRemoteServerConfig(config)) {
+        return Object.fromEntries(secretHeaderFields(entry)
+            .map(name => [name, values[name]?.trim() ?? ''])
+            .filter(([, value]) => value));
+    }
+    const env = config.env ?? {};
+    return Object.fromEntries(secretEnvNames(entry).filter(name => name in env).map(name => [name, env[name]]));
+}
+
+/**
+ * Build a server config from a catalog entry and the values collected for its fields. Throws a
+ * ServerConfigImportError when a required field is blank.
+ */
+export function createServerFromCatalog(
+    entry: ServerCatalogEntry,
+    values: Record<string, string | undefined>,
+    options: CreateServerFromCatalogOptions = {}
+): StdioServerConfig | RemoteServerConfig {
+    const filled: Record<string, string> = {};
+    const blank = new Set<string>();
+    const errors: ServerConfigFieldError[] = [];
+
+    for (const field of entry.fields) {
+        const value = values[field.name]?.trim() ?? '';
+        if (value) {
+            filled[field.name] = value;
+        } else if (field.optional) {
+            blank.add(field.name);
+            filled[field.name] = '';
+        } else {
+            errors.push({ path: field.name, message: 'is required' });
+        }
+    }
+    if (errors.length > 0) {
+        throw new ServerConfigImportError(errors);
+    }
+
+    const isBlankPlaceholder = (value: string) => {
+        const match = /^\$\{([^}]+)\}$/.exec(value);
+        return !!match && blank.has(match[1]);
+    };
+    const dropBlank = (record: Record<string, string>) => Object.fromEntries(
+        Object.entries(record).filter(([, value]) => !isBlankPlaceholder(value))
+    );
+
+    // Remote servers fill these in from the env group when they connect
+    const groupHeaderFields = options.secretEnvGroup ? secretHeaderFields(entry).filter(name => !blank.has(name)) : [];
+    for (const name of groupHeaderFields) {
+        filled[name] = `\${${name}}`;
+    }
+
+    const config: StdioServerConfig | RemoteServerConfig = isRemoteServerConfig(entry.config)
+        ? { ...entry.config, ...(entry.config.headers && { headers: dropBlank(entry.config.headers) }) }
+        : {
+            ...entry.config,
+            args: entry.config.args.filter(arg => !isBlankPlaceholder(arg)),
+            ...(entry.config.env && { env: dropBlank(entry.config.env) }),
+        };
+
+    const created = applyServerConfigVariables({ [entry.id]: config }, filled)[entry.id] as StdioServerConfig | RemoteServerConfig;
+    if (!options.secretEnvGroup) {
+        return created;
+    }
+    if (isRemoteServerConfig(created)) {
+        return groupHeaderFields.length > 0
+            ? { ...created, envGroups: [...(created.envGroups ?? []), options.secretEnvGroup] }
+            : created;
+    }
+    const secretNames = secretEnvNames(entry);
+    if (secretNames.length === 0) {
+        return created;
+    }
+    return {
+        ...created,
+        env: Object.fromEntries(Object.entries(created.env ?? {}).filter(([name]) => !secretNames.includes(name))),
+        envGroups: [...(created.envGroups ?? []), options.secretEnvGroup],
+    };
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ServerConfigImportError,
+  applyServerConfigVariables,
+  exportServerConfigs,
+  importServerConfigs,
+  parseServerConfigFile,
+} from './serverConfigFile';
+
+const claudeDesktopFile = JSON.stringify({
+  mcpServers: {
+    memory: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-memory'] },
+    github: {
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-github'],
+      env: { GITHUB_PERSONAL_ACCESS_TOKEN: '${GITHUB_TOKEN}' }
+    },
+    remote: { url: 'https://example.com/mcp' }
+  }
+});
+
+const vscodeFile = JSON.stringify({
+  inputs: [{ type: 'promptString', id: 'api-key', description: 'Search API key', password: true }],
+  servers: {
+    search: { type: 'stdio', command: 'npx', args: ['search-server'], env: { API_KEY: '${input:api-key}' } },
+    events: { type: 'sse', url: 'http://localhost:3001/sse' }
+  }
+});
+
+describe('parseServerConfigFile', () => {
+  it('should read the Claude Desktop format', () => {
+    const result = parseServerConfigFile(claudeDesktopFile);
+
+    expect(result.format).toBe('claude-desktop');
+    expect(result.errors).toEqual([]);
+    expect(result.servers.memory).toEqual({ command: 'npx', args: ['-y', '@modelcontextprotocol/server-memory'], env: {} });
+    expect(result.servers.remote).toEqual({ type: 'http', url: 'https://example.com/mcp' });
+    expect(result.variables).toEqual([{ name: 'GITHUB_TOKEN', description: undefined, password: undefined }]);
+  });
+
+  it('should read the VS Code format and describe its inputs', () => {
+    const result = parseServerConfigFile(vscodeFile);
+
+    expect(result.format).toBe('vscode');
+    expect(result.errors).toEqual([]);
+    expect(result.servers.events).toEqual({ type: 'sse', url: 'http://localhost:3001/sse' });
+    expect(result.variables).toEqual([{ name: 'input:api-key', description: 'Search API key', password: true }]);
+  });
+
+  it('should report errors per field and keep the valid servers', () => {
+    const result = parseServerConfigFile(JSON.stringify({
+      mcpServers: {
+        good: { command: 'node', args: ['server.js'] },
+        noCommand: { args: ['x'] },
+        badArg: { command: 'npx', args: ['ok', 3] },
+        badUrl: { type: 'http', url: 'not a url' },
+        pathWithoutPort: { url: '/mcp' },
+        pathWithPort: { url: '/mcp', port: 3000 },
+        unknownInput: { command: 'npx', env: { KEY: '${input:missing}' } }
+      }
+    }));
+
+    expect(Object.keys(result.servers)).toEqual(['good', 'pathWithPort']);
+    expect(result.errors).toEqual([
+      { path: 'mcpServers.noCommand.command', message: 'is required' },
+      { path: 'mcpServers.badArg.args[1]', message: 'must be a string' },
+      { path: 'mcpServers.badUrl.url', message: 'must be a URL' },
+      { path: 'mcpServers.pathWithoutPort.url', message: 'must be an absolute URL when no port is given' },
+      { path: 'mcpServers.unknownInput', message: 'refers to ${input:missing}, which is not declared in inputs' }
+    ]);
+  });
+
+  it('should reject files without a servers object', () => {
+    expect(parseServerConfigFile('{"servers": []}').errors).toEqual([
+      { path: '', message: 'must have an "mcpServers" or "servers" object' }
+    ]);
+    expect(parseServerConfigFile('{').errors[0].message).toMatch(/^is not valid JSON/);
+  });
+});
+
+describe('importServerConfigs', () => {
+  it('should fill in placeholders', () => {
+    const servers = importServerConfigs(vscodeFile, { 'input:api-key': 'secret' });
+    expect(servers.search).toMatchObject({ env: { API_KEY: 'secret' } });
+  });
+
+  it('should throw listing placeholders without values', () => {
+    expect(() => importServerConfigs(claudeDesktopFile)).toThrow(ServerConfigImportError);
+    try {
+      importServerConfigs(claudeDesktopFile);
+    } catch (error) {
+      expect((error as ServerConfigImportError).errors).toEqual([
+        { path: 'github.env.GITHUB_PERSONAL_ACCESS_TOKEN', message: 'needs a value for ${GITHUB_TOKEN}' }
+      ]);
+    }
+  });
+});
+
+describe('exportServerConfigs', () => {
+  it('should round-trip through both formats', () => {
+    const servers = applyServerConfigVariables(parseServerConfigFile(claudeDesktopFile).servers, { GITHUB_TOKEN: 'abc' });
+
+    for (const format of ['claude-desktop', 'vscode'] as const) {
+      expect(importServerConfigs(exportServerConfigs(servers, format))).toEqual(servers);
+    }
+  });
+
+  it('should skip in-page servers', () => {
+    const file = exportServerConfigs({ local: { type: 'in-page', createServer: () => { throw new Error(); } } }, 'vscode');
+    expect(JSON.parse(file)).toEqual({ servers: {} });
+  });
+});
@@ -0,0 +1,309 @@
+import { z } from 'zod';
+import {
+    ServerConfig,
+    RemoteServerConfig,
+    StdioServerConfig,
+    isInPageServerConfig,
+    isRemoteServerConfig,
+} from './McpClientManager';
+
+// `{ "mcpServers": ... }` as in claude_desktop_config.json, or `{ "servers": ... }` as in .vscode/mcp.json
+export type ServerConfigFileFormat = 'claude-desktop' | 'vscode';
+
+// A problem with one field of an imported file, e.g. `mcpServers.github.args[1]`
+export type ServerConfigFieldError = {
+    path: string;
+    message: string;
+};
+
+// A `${...}` placeholder that needs a value before the servers can be used
+export type ServerConfigVariable = {
+    // Text between the braces, e.g. `input:github_token` or `env:API_KEY`
+    name: string;
+    description?: string;
+    // VS Code marks secret inputs with `password: true`
+    password?: boolean;
+};
+
+export type ServerConfigImport = {
+    format: ServerConfigFileFormat;
+    servers: Record<string, ServerConfig>;
+    variables: ServerConfigVariable[];
+    errors: ServerConfigFieldError[];
+};
+
+// Thrown by importServerConfigs when the file or the supplied variables have problems
+export class ServerConfigImportError extends Error {
+    constructor(public errors: ServerConfigFieldError[]) {
+      super(`Invalid server config file:\n${errors.map(error => `${error.path || '(root)'}: ${error.message}`).join('\n')}`);
+      this.name = 'ServerConfigImportError';
+    }
+  }
+
+const PLACEHOLDER_PATTERN = /\$\{([^}]+)\}/g;
+
+const stringField = z.string({ required_error: 'is required', invalid_type_error: 'must be a string' });
+const stringArray = z.array(stringField, { invalid_type_error: 'must be an array of strings' });
+const stringRecord = z.record(stringField, { invalid_type_error: 'must be an object of strings' });
+
+// Fields this app adds on top of the standard formats
+const extensionFields = {
+    alias: stringField.optional(),
+    envGroups: stringArray.optional(),
+};
+
+const StdioEntrySchema = z.object({
+    type: z.literal('stdio', { invalid_type_error: 'must be "stdio", "http" or "sse"' }).optional(),
+    command: stringField.min(1, 'must not be empty'),
+    args: stringArray.optional(),
+    env: stringRecord.optional(),
+    envFile: z.undefined({ invalid_type_error: 'is not supported; use env or env groups instead' }).optional(),
+    ...extensionFields,
+});
+
+const RemoteEntrySchema = z.object({
+    type: z.enum(['http', 'sse'], { invalid_type_error: 'must be "stdio", "http" or "sse"' }).optional(),
+    url: stringField.refine(isUrlOrPlaceholder, 'must be a URL'),
+    headers: stringRecord.optional(),
+    port: z.number({ invalid_type_error: 'must be a number' }).int('must be an integer').optional(),
+    ...extensionFields,
+}).refine(
+    // A path is resolved against the origin WebContainer forwards for `port`, so it needs one
+    entry => !entry.url.startsWith('/') || entry.port !== undefined,
+    { path: ['url'], message: 'must be an absolute URL when no port is given' }
+);
+
+const InputSchema = z.object({
+    id: stringField.min(1, 'must not be empty'),
+    type: stringField.optional(),
+    description: stringField.optional(),
+    password: z.boolean({ invalid_type_error: 'must be true or false' }).optional(),
+});
+
+function isUrlOrPlaceholder(value: string): boolean {
+    if (value.startsWith('/') || value.includes('${')) {
+        return true;
+    }
+    try {
+        new URL(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// `mcpServers.github` + ['args', 1] -> `mcpServers.github.args[1]`
+function formatPath(prefix: string, segments: Array<string | number>): string {
+    return segments.reduce<string>(
+        (path, segment) => typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment,
+        prefix
+    );
+}
+
+function zodErrors(prefix: string, error: z.ZodError): ServerConfigFieldError[] {
+    return error.issues.map(issue => ({ path: formatPath(prefix, issue.path), message: issue.message }));
+}
+
+// Every string in a config that may hold a placeholder
+export function configStrings(config: StdioServerConfig | RemoteServerConfig): string[] {
+    if (isRemoteServerConfig(config)) {
+        return [config.url, ...Object.values(config.headers ?? {})];
+    }
+    return [config.command, ...config.args, ...Object.values(config.env ?? {})];
+}
+
+// Validate a single server entry, e.g. the value of `mcpServers.github`
+export function parseServerConfigEntry(path: string, entry: unknown): { config?: StdioServerConfig | RemoteServerConfig; errors: ServerConfigFieldError[] } {
+    if (!isPlainObject(entry)) {
+        return { errors: [{ path, message: 'must be an object' }] };
+    }
+
+    // Claude Desktop leaves out `type` for remote servers, so a url is enough to tell them apart
+    const isRemote = entry.type === 'http' || entry.type === 'sse' || (entry.type === undefined && 'url' in entry);
+    if (isRemote) {
+        const parsed = RemoteEntrySchema.safeParse(entry);
+        if (!parsed.success) {
+            return { errors: zodErrors(path, parsed.error) };
+        }
+        const { type, ...rest } = parsed.data;
+        return { config: { ...rest, type: type ?? 'http' }, errors: [] };
+    }
+
+    const parsed = StdioEntrySchema.safeParse(entry);
+    if (!parsed.success) {
+        return { errors: zodErrors(path, parsed.error) };
+    }
+    const { type: _type, envFile: _envFile, ...rest } = parsed.data;
+    return { config: { ...rest, args: rest.args ?? [], env: rest.env ?? {} }, errors: [] };
+}
+
+/**
+ * Parse and validate a server config file without throwing. Servers with errors are left out of
+ * `servers`; placeholders are kept as written and listed in `variables`.
+ */
+export function parseServerConfigFile(text: string): ServerConfigImport {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        return { format: 'claude-desktop', servers: {}, variables: [], errors: [{ path: '', message: `is not valid JSON: ${(error as Error).message}` }] };
+    }
+
+    if (!isPlainObject(json) || (!isPlainObject(json.mcpServers) && !isPlainObject(json.servers))) {
+        return { format: 'claude-desktop', servers: {}, variables: [], errors: [{ path: '', message: 'must have an "mcpServers" or "servers" object' }] };
+    }
+
+    const format: ServerConfigFileFormat = isPlainObject(json.mcpServers) ? 'claude-desktop' : 'vscode';
+    const rootKey = format === 'claude-desktop' ? 'mcpServers' : 'servers';
+    const errors: ServerConfigFieldError[] = [];
+
+    // VS Code declares prompted values up front and refers to them as ${input:id}
+    const inputs = new Map<string, z.infer<typeof InputSchema>>();
+    if (json.inputs !== undefined) {
+        if (!Array.isArray(json.inputs)) {
+            errors.push({ path: 'inputs', message: 'must be an array' });
+        } else {
+            json.inputs.forEach((input, index) => {
+                const parsed = InputSchema.safeParse(input);
+                if (parsed.success) {
+                    inputs.set(parsed.data.id, parsed.data);
+                } else {
+                    errors.push(...zodErrors(`inputs[${index}]`, parsed.error));
+                }
+            });
+        }
+    }
+
+    const servers: Record<string, ServerConfig> = {};
+    const variables = new Map<string, ServerConfigVariable>();
+
+    for (const [name, entry] of Object.entries(json[rootKey] as Record<string, unknown>)) {
+        const path = `${rootKey}.${name}`;
+        const { config, errors: entryErrors } = parseServerConfigEntry(path, entry);
+        if (!config) {
+            errors.push(...entryErrors);
+            continue;
+        }
+
+        let hasUnknownInput = false;
+        for (const value of configStrings(config)) {
+            for (const [, variableName] of Array.from(value.matchAll(PLACEHOLDER_PATTERN))) {
+                const inputId = variableName.startsWith('input:') ? variableName.slice('input:'.length) : undefined;
+                if (inputId !== undefined && !inputs.has(inputId)) {
+                    errors.push({ path, message: `refers to \${${variableName}}, which is not declared in inputs` });
+                    hasUnknownInput = true;
+                    continue;
+                }
+                const input = inputId !== undefined ? inputs.get(inputId) : undefined;
+                variables.set(variableName, { name: variableName, description: input?.description, password: input?.password });
+            }
+        }
+
+        if (!hasUnknownInput) {
+            servers[name] = config;
+        }
+    }
+
+    return { format, servers, variables: Array.from(variables.values()), errors };
+}
+
+/**
+ * Replace `${...}` placeholders with the given values. Throws if any placeholder has no value.
+ */
+export function applyServerConfigVariables(
+    servers: Record<string, ServerConfig>,
+    values: Record<string, string>
+): Record<string, ServerConfig> {
+    const errors: ServerConfigFieldError[] = [];
+
+    const substitute = (path: string, value: string) => value.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+        if (values[name] === undefined) {
+            errors.push({ path, message: `needs a value for ${placeholder}` });
+            return placeholder;
+        }
+        return values[name];
+    });
+    const substituteRecord = (path: string, record: Record<string, string>) => Object.fromEntries(
+        Object.entries(record).map(([key, value]) => [key, substitute(`${path}.${key}`, value)])
+    );
+
+    const result: Record<string, ServerConfig> = {};
+    for (const [name, config] of Object.entries(servers)) {
+        if (isInPageServerConfig(config)) {
+            result[name] = config;
+        } else if (isRemoteServerConfig(config)) {
+            result[name] = {
+                ...config,
+                url: substitute(`${name}.url`, config.url),
+                ...(config.headers && { headers: substituteRecord(`${name}.headers`, config.headers) }),
+            };
+        } else {
+            result[name] = {
+                ...config,
+                command: substitute(`${name}.command`, config.command),
+                args: config.args.map((arg, index) => substitute(`${name}.args[${index}]`, arg)),
+                ...(config.env && { env: substituteRecord(`${name}.env`, config.env) }),
+            };
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new ServerConfigImportError(errors);
+    }
+    return result;
+}
+
+/**
+ * Parse a config file and fill in its placeholders, throwing a ServerConfigImportError listing
+ * every problem found.
+ */
+export function importServerConfigs(text: string, values: Record<string, string> = {}): Record<string, ServerConfig> {
+    const parsed = parseServerConfigFile(text);
+    if (parsed.errors.length > 0) {
+        throw new ServerConfigImportError(parsed.errors);
+    }
+    return applyServerConfigVariables(parsed.servers, values);
+}
+
+/**
+ * Serialize servers in either file format. In-page servers only exist in code and are skipped.
+ */
+export function exportServerConfigs(servers: Record<string, ServerConfig>, format: ServerConfigFileFormat): string {
+    const entries: Record<string, Record<string, unknown>> = {};
+
+    for (const [name, config] of Object.entries(servers)) {
+        if (isInPageServerConfig(config)) {
+            continue;
+        }
+
+        const extensions = {
+            ...(config.alias && { alias: config.alias }),
+            ...(config.envGroups?.length && { envGroups: config.envGroups }),
+        };
+
+        if (isRemoteServerConfig(config)) {
+            entries[name] = {
+                type: config.type,
+                url: config.url,
+                ...(config.headers && Object.keys(config.headers).length > 0 && { headers: config.headers }),
+                ...(config.port !== undefined && { port: config.port }),
+                ...extensions,
+            };
+        } else {
+            entries[name] = {
+                ...(format === 'vscode' && { type: 'stdio' }),
+                command: config.command,
+                args: config.args,
+                ...(config.env && Object.keys(config.env).length > 0 && { env: config.env }),
+                ...extensions,
+            };
+        }
+    }
+
+    const file = format === 'claude-desktop' ? { mcpServers: entries } : { servers: entries };
+    return JSON.stringify(file, null, 2);
+}
@@ -0,0 +1,64 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { WebContainer } from '@webcontainer/api';
+import { z } from 'zod';
+import type { InPageServerConfig } from './McpClientManager';
+
+// Expose the WebContainer filesystem as MCP tools without spawning a process
+export function createWebContainerFsServer(webContainer: WebContainer): McpServer {
+  const server = new McpServer({ name: 'webcontainer-fs', version: '0.0.1' });
+
+  server.registerTool(
+    'read_file',
+    {
+      description: 'Read a UTF-8 text file from the WebContainer filesystem',
+      inputSchema: { path: z.string().describe('Absolute path of the file') },
+    },
+    async ({ path }) => ({
+      content: [{ type: 'text', text: await webContainer.fs.readFile(path, 'utf-8') }],
+    }),
+  );
+
+  server.registerTool(
+    'write_file',
+    {
+      description: 'Create or overwrite a text file in the WebContainer filesystem',
+      inputSchema: {
+        path: z.string().describe('Absolute path of the file'),
+        contents: z.string().describe('New contents of the file'),
+      },
+    },
+    async ({ path, contents }) => {
+      const parentDir = path.substring(0, path.lastIndexOf('/'));
+      if (parentDir) {
+        await webContainer.fs.mkdir(parentDir, { recursive: true });
+      }
+      await webContainer.fs.writeFile(path, contents);
+      return { content: [{ type: 'text', text: `Wrote ${contents.length} characters to ${path}` }] };
+    },
+  );
+
+  server.registerTool(
+    'list_directory',
+    {
+      description: 'List the entries of a directory in the WebContainer filesystem',
+      inputSchema: { path: z.string().describe('Absolute path of the directory') },
+    },
+    async ({ path }) => {
+      const entries = await webContainer.fs.readdir(path, { withFileTypes: true });
+      const lines = entries.map((entry) => `${entry.isDirectory() ? '[dir] ' : ''}${entry.name}`);
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    },
+  );
+
+  return server;
+}
+
+export const WEBCONTAINER_FS_SERVER_CONFIG: InPageServerConfig = {
+  type: 'in-page',
+  createServer: ({ webContainer }) => {
+    if (!webContainer) {
+      throw new Error('WebContainer is not available');
+    }
+    return createWebContainerFsServer(webContainer);
+  },
+};
@@ -67,6 +67,7 @@ const McpStatus = () => {
     activeServers, 
     availableServers,
     tools,
+    serverStatuses,
     activateServer,
     deactivateServer
   } = useMcp();
@@ -93,7 +94,12 @@ const McpStatus = () => {
               const isActive = !!activeServers[name];
               return (
                 <div key={name} className="flex items-center justify-between p-2 border rounded">
-                  <span className="text-sm truncate mr-2">{name}</span>
+                  <span className="text-sm truncate mr-2">
+                    {name}
+                    {isActive && serverStatuses[name] && (
+                      <span className="ml-2 text-xs text-gray-500">{serverStatuses[name]}</span>
+                    )}
+                  </span>
                   <Button
                     onPress={() => isActive ? deactivateServer(name) : activateServer(name)}
                     variant={isActive ? "destructive" : "primary"}
@@ -285,7 +291,7 @@ export const WebContainerOnly: Story = {
 
 export const McpProviderDemo: Story = {
   render: () => (
-      <McpProvider>
+      <McpProvider persistServers>
         <div className="p-6 max-w-6xl mx-auto">
           <h1 className="text-2xl font-bold mb-6">MCP Provider</h1>
           <div className="grid gap-6 md:grid-cols-2">
@@ -4,6 +4,7 @@ import { WebContainer } from "@webcontainer/api";
 import React, { createContext, useContext, useEffect, useRef, useState } from "react";
 import { FileSystemTree } from "@webcontainer/api";
 import { files } from "virtual:webcontainer-files";
+import { PackageCache } from "../lib/PackageCache";
 
 type WebContainerStatus = "booting" | "installing" | "mounting" | "ready" | "none" | "error";
 
@@ -14,6 +15,9 @@ interface WebContainerContextValue {
   unregisterFilesystem: (id: string) => void;
   filesystemIds: string[]; // Add a property to see registered filesystems
   status: WebContainerStatus;
+  portForwards: Record<number, string>; // Origins of ports reported through server-ready
+  filesystemDirectories: Record<string, string[]>; // Top-level directories each registered filesystem mounts
+  packageCache: PackageCache | null; // Snapshots of installed packages, restored on boot
 }
 
 export const WebContainerContext = createContext<WebContainerContextValue>({
@@ -21,15 +25,30 @@ export const WebContainerContext = createContext<WebContainerContextValue>({
   registerFilesystem: () => {},
   unregisterFilesystem: () => {},
   filesystemIds: [],
-  status: "none"
+  status: "none",
+  portForwards: {},
+  filesystemDirectories: {},
+  packageCache: null
 });
 
+// Shared by every provider that doesn't bring its own, so snapshots are read once per page
+const defaultPackageCache = typeof indexedDB !== "undefined" ? new PackageCache() : null;
+
+// Absolute paths of the directories at the top of a filesystem tree
+const topLevelDirectories = (filesystem: FileSystemTree): string[] =>
+  Object.keys(filesystem)
+    .filter(key => 'directory' in filesystem[key])
+    .map(key => key.startsWith('/') ? key : `/${key}`);
+
 const crossOriginIsolatedErrorMessage = `Failed to execute 'postMessage' on 'Worker': SharedArrayBuffer transfer requires self.crossOriginIsolated.`;
 
 export default function WebContainerProvider({
     children,
+    packageCache = defaultPackageCache,
 }: {
     children: React.ReactNode;
+    // Pass null to install packages from the registry on every boot
+    packageCache?: PackageCache | null;
 }) {
     const [webContainer, setWebContainer] = useState<WebContainer | null>(null);
     const [webContainerStatus, setWebContainerStatus] = useState<WebContainerStatus>("none");
@@ -39,6 +58,7 @@ export default function WebContainerProvider({
     // Track registered filesystem trees
     const filesystemsRef = useRef<Record<string, FileSystemTree>>({});
     const [filesystemIds, setFilesystemIds] = useState<string[]>([]);
+    const [filesystemDirectories, setFilesystemDirectories] = useState<Record<string, string[]>>({});
     
     // Helper function to write filesystem files directly
     const writeFilesystemDirectly = async (container: WebContainer, filesystem: FileSystemTree) => {
@@ -158,6 +178,7 @@ export default function WebContainerProvider({
       
       // Update the state with the new ID list
       setFilesystemIds(Object.keys(filesystemsRef.current));
+      setFilesystemDirectories(prev => ({ ...prev, [id]: topLevelDirectories(filesystem) }));
       
       // If the container is already ready, apply the filesystem immediately
       if (webContainerStatus !== "booting" && webContainerStatus !== "none" && webContainer) {
@@ -174,6 +195,7 @@ export default function WebContainerProvider({
       
       // Update the state with the new ID list
       setFilesystemIds(Object.keys(filesystemsRef.current));
+      setFilesystemDirectories(({ [id]: _, ...remaining }) => remaining);
     };
 
     useEffect(() => {
@@ -235,23 +257,37 @@ export default function WebContainerProvider({
                             }
                             console.log("Direct file writing complete");
                             
-                            // Run npm install after files are written
+                            // Restore node_modules for this package.json from the cache, or install after files are written
                             setWebContainerStatus("installing");
                             await new Promise(resolve => setTimeout(resolve, 1));
-                            console.log("Running npm install...");
-                            try {
-                                const installProcess = await webContainer.spawn('pnpm', ['install']);
-                                installProcess.output.pipeTo(new WritableStream({
-                                    write(data) {
-                                        console.log(`[npm install] ${data}`);
-                                    }
-                                }));
-                                const installExitCode = await installProcess.exit;
+                            const restored = await packageCache?.restoreProjectDependencies(webContainer).catch((error) => {
+                                console.warn("Could not restore node_modules from the package cache:", error);
+                                return false;
+                            });
+                            if (restored) {
+                                console.log("Restored node_modules from the package cache");
                                 setWebContainerStatus("ready");
-                                console.log(`npm install completed with exit code ${installExitCode}`);
-                            } catch (error) {
-                                setWebContainerStatus("error");
-                                console.error("Error running npm install:", error);
+                            } else {
+                                console.log("Running npm install...");
+                                try {
+                                    const installProcess = await webContainer.spawn('pnpm', ['install']);
+                                    installProcess.output.pipeTo(new WritableStream({
+                                        write(data) {
+                                            console.log(`[npm install] ${data}`);
+                                        }
+                                    }));
+                                    const installExitCode = await installProcess.exit;
+                                    setWebContainerStatus("ready");
+                                    console.log(`npm install completed with exit code ${installExitCode}`);
+                                    if (installExitCode === 0) {
+                                        packageCache?.saveProjectDependencies(webContainer).catch((error) => {
+                                            console.warn("Could not save node_modules to the package cache:", error);
+                                        });
+                                    }
+                                } catch (error) {
+                                    setWebContainerStatus("error");
+                                    console.error("Error running npm install:", error);
+                                }
                             }
                         } catch (error) {
                             console.error("Error writing files directly:", error);
@@ -356,7 +392,10 @@ export default function WebContainerProvider({
       registerFilesystem,
       unregisterFilesystem,
       filesystemIds,
-      status: webContainerStatus
+      status: webContainerStatus,
+      portForwards,
+      filesystemDirectories,
+      packageCache
     };
 
     return (
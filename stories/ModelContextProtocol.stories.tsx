@@ -1027,7 +1027,7 @@ function ResourceViewer() {
     try {
       // Use execute method from mcpServer instead
       const result = await mcpServer.executeTool('readResource', { resourceName: selectedResource });
-      setResourceContent(result as ReadResourceResponse);
+      setResourceContent(result as unknown as ReadResourceResponse);
     } catch (error) {
       console.error("Error fetching resource:", error);
     } finally {